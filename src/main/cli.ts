@@ -0,0 +1,336 @@
+import axios from 'axios';
+import fs from 'fs';
+import * as path from 'path';
+import { SpotifyService } from './services/SpotifyService';
+import { AuthService } from './services/AuthService';
+import { CacheStore } from './services/CacheStore';
+import { SettingsService } from './services/SettingsService';
+import { RateLimitExceededError } from './services/RequestScheduler';
+import type {
+  CreatePlaylistResponse,
+  PlaylistTarget,
+  ProgressUpdate,
+  ScanReleasesResponse,
+} from '../shared/types';
+
+export const CLI_EXIT_CODES = {
+  success: 0,
+  failed: 1,
+  notAuthenticated: 2,
+  rateLimited: 3,
+  invalidArguments: 4,
+} as const;
+
+type CliExitCode = (typeof CLI_EXIT_CODES)[keyof typeof CLI_EXIT_CODES];
+
+const MAX_CLI_DAYS_BACK = 365;
+
+export const CLI_USAGE = `Usage: spotify-release-hub --scan [options]
+
+Scans the artists you follow for new releases without opening the window.
+Sign in once through the app before using it.
+
+Options:
+  --days <n>                 Look back this many days (default 7)
+  --max-artists <n>          Only check the first n followed artists
+  --create-playlist <name>   Add the releases to a new playlist with this name
+  --rolling                  Add the releases to the rolling playlist from the settings
+  --public                   Make a newly created playlist public
+  --output <file>            Write the JSON result to a file instead of stdout
+  --quiet                    Do not print progress
+  --demo                     Use the built-in demo data instead of your account
+  --help                     Show this message
+
+Exit codes:
+  0  Success
+  1  The scan or playlist update failed or was interrupted
+  2  Not signed in
+  3  Spotify rate limit exceeded
+  4  Invalid arguments`;
+
+// Any of these on the command line starts the app without a window
+const CLI_FLAGS = new Set([
+  '--help',
+  '--scan',
+  '--days',
+  '--max-artists',
+  '--create-playlist',
+  '--rolling',
+  '--public',
+  '--output',
+  '--quiet',
+  '--demo',
+]);
+
+// Chromium and Electron switches that launchers and wrappers add; they are left to Electron
+const PASSTHROUGH_FLAGS = new Set([
+  '--no-sandbox',
+  '--disable-gpu',
+  '--disable-gpu-sandbox',
+  '--disable-software-rasterizer',
+  '--disable-dev-shm-usage',
+  '--disable-features',
+  '--enable-features',
+  '--enable-logging',
+  '--headless',
+  '--in-process-gpu',
+  '--inspect',
+  '--inspect-brk',
+  '--js-flags',
+  '--lang',
+  '--log-level',
+  '--ozone-platform',
+  '--ozone-platform-hint',
+  '--remote-debugging-port',
+  '--user-data-dir',
+  '--v',
+]);
+
+export interface CliOptions {
+  help: boolean;
+  daysBack: number;
+  maxArtists?: number;
+  playlistName: string | null;
+  rolling: boolean;
+  isPublic: boolean;
+  outputPath: string | null;
+  quiet: boolean;
+  demo: boolean;
+}
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+interface CliServices {
+  authService: AuthService | null;
+  cacheStore: CacheStore | null;
+  settingsService: SettingsService | null;
+}
+
+interface CliResult {
+  success: boolean;
+  data?: { scan: ScanReleasesResponse; playlist: CreatePlaylistResponse | null };
+  error?: string;
+}
+
+const parsePositiveInteger = (flag: string, value: string, max?: number): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || (max !== undefined && parsed > max)) {
+    throw new CliUsageError(
+      `${flag} expects a whole number${max !== undefined ? ` between 1 and ${max}` : ' above 0'}`
+    );
+  }
+  return parsed;
+};
+
+/**
+ * Reads the CLI options from the arguments after the executable (and the app path when
+ * running unpackaged). Returns null when none of the CLI flags are present, so the app
+ * opens its window as usual.
+ */
+export function parseCliArgs(args: string[]): CliOptions | null {
+  const flagNames = args.map((arg) => arg.split('=')[0]);
+  if (!flagNames.some((flag) => CLI_FLAGS.has(flag))) {
+    return null;
+  }
+
+  const options: CliOptions = {
+    help: false,
+    daysBack: 7,
+    playlistName: null,
+    rolling: false,
+    isPublic: false,
+    outputPath: null,
+    quiet: false,
+    demo: false,
+  };
+  let hasScan = false;
+
+  for (let index = 0; index < args.length; index += 1) {
+    const separator = args[index].indexOf('=');
+    const flag = separator === -1 ? args[index] : args[index].slice(0, separator);
+    const inlineValue = separator === -1 ? undefined : args[index].slice(separator + 1);
+    if (!flag.startsWith('--')) {
+      // The app path when started as `electron . --scan`
+      continue;
+    }
+    if (PASSTHROUGH_FLAGS.has(flag)) {
+      continue;
+    }
+
+    const readValue = (): string => {
+      if (inlineValue !== undefined) {
+        return inlineValue;
+      }
+      const next = args[index + 1];
+      if (next === undefined || next.startsWith('--')) {
+        throw new CliUsageError(`${flag} needs a value`);
+      }
+      index += 1;
+      return next;
+    };
+
+    switch (flag) {
+      case '--help':
+        options.help = true;
+        break;
+      case '--scan':
+        hasScan = true;
+        break;
+      case '--days':
+        options.daysBack = parsePositiveInteger(flag, readValue(), MAX_CLI_DAYS_BACK);
+        break;
+      case '--max-artists':
+        options.maxArtists = parsePositiveInteger(flag, readValue());
+        break;
+      case '--create-playlist':
+        options.playlistName = readValue().trim();
+        if (!options.playlistName) {
+          throw new CliUsageError('--create-playlist needs a playlist name');
+        }
+        break;
+      case '--rolling':
+        options.rolling = true;
+        break;
+      case '--public':
+        options.isPublic = true;
+        break;
+      case '--output':
+        options.outputPath = path.resolve(readValue());
+        break;
+      case '--quiet':
+        options.quiet = true;
+        break;
+      case '--demo':
+        options.demo = true;
+        break;
+      default:
+        throw new CliUsageError(`Unknown option ${flag}`);
+    }
+  }
+
+  if (options.help) {
+    return options;
+  }
+  if (!hasScan) {
+    throw new CliUsageError('--scan is required');
+  }
+  if (options.rolling && options.playlistName) {
+    throw new CliUsageError('Use either --create-playlist or --rolling, not both');
+  }
+  return options;
+}
+
+// Progress goes to stderr so stdout only ever holds the JSON result
+const printProgress = (progress: ProgressUpdate) => {
+  process.stderr.write(`[${progress.current}/${progress.total}] ${progress.message}\n`);
+};
+
+const writeResult = (options: CliOptions, result: CliResult) => {
+  const json = JSON.stringify(result, null, 2);
+  if (options.outputPath) {
+    fs.writeFileSync(options.outputPath, `${json}\n`);
+  } else {
+    process.stdout.write(`${json}\n`);
+  }
+};
+
+/**
+ * Runs one scan, and the playlist update if requested, with the tokens saved by the
+ * app. Resolves to the process exit code; the JSON result is always written, also
+ * when the run fails.
+ */
+export async function runCli(options: CliOptions, services: CliServices): Promise<CliExitCode> {
+  if (options.help) {
+    process.stdout.write(`${CLI_USAGE}\n`);
+    return CLI_EXIT_CODES.success;
+  }
+
+  const { authService, cacheStore, settingsService } = services;
+  const onProgress = options.quiet ? undefined : printProgress;
+  // Ctrl+C or a cron timeout stops at the next request and still reports what was found
+  const controller = new AbortController();
+  // The listeners are left in place as the process exits right after the run
+  process.once('SIGINT', () => controller.abort());
+  process.once('SIGTERM', () => controller.abort());
+
+  try {
+    if (!authService) {
+      throw new Error('Authentication service not available');
+    }
+
+    const tokens = options.demo
+      ? await authService.startDemoSession()
+      : authService.getStoredTokens();
+    if (!tokens) {
+      writeResult(options, {
+        success: false,
+        error: 'Not signed in. Open the app once and log in with Spotify.',
+      });
+      return CLI_EXIT_CODES.notAuthenticated;
+    }
+
+    const spotifyService = new SpotifyService(tokens, authService, cacheStore, settingsService);
+    const settings = settingsService?.get();
+
+    const scan = await spotifyService.scanRecentReleases(
+      options.daysBack,
+      options.maxArtists,
+      onProgress,
+      controller.signal,
+      settings?.extraScanMarkets,
+      settings?.releaseFilters
+    );
+
+    let playlist: CreatePlaylistResponse | null = null;
+    const target: PlaylistTarget | null = options.rolling
+      ? 'rolling'
+      : options.playlistName
+        ? 'new'
+        : null;
+    if (target && !scan.cancelled && scan.releases.length > 0) {
+      playlist = await spotifyService.createPlaylistFromReleases(
+        options.playlistName ?? settings?.rollingPlaylist.playlistName ?? '',
+        scan.releases,
+        options.isPublic,
+        onProgress,
+        controller.signal,
+        target,
+        settings?.releaseFilters
+      );
+    }
+    spotifyService.flushCache();
+
+    const cancelled = Boolean(scan.cancelled || playlist?.cancelled);
+    writeResult(options, {
+      success: !cancelled && !scan.rateLimited,
+      data: { scan, playlist },
+      error: cancelled
+        ? 'Interrupted before finishing'
+        : scan.rateLimited
+          ? 'Some artists were skipped because of the Spotify rate limit'
+          : undefined,
+    });
+
+    if (cancelled) {
+      return CLI_EXIT_CODES.failed;
+    }
+    return scan.rateLimited ? CLI_EXIT_CODES.rateLimited : CLI_EXIT_CODES.success;
+  } catch (error) {
+    writeResult(options, { success: false, error: (error as Error).message });
+    if (error instanceof RateLimitExceededError) {
+      return CLI_EXIT_CODES.rateLimited;
+    }
+    // A 401 only reaches here once refreshing the stored token has failed too
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      return CLI_EXIT_CODES.notAuthenticated;
+    }
+    return CLI_EXIT_CODES.failed;
+  } finally {
+    await authService?.endDemoSession();
+  }
+}
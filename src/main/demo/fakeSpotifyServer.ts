@@ -0,0 +1,517 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { SpotifyArtist } from '../../shared/types';
+import {
+  createFixtureData,
+  FixtureAlbum,
+  FixtureData,
+  FixturePlaylist,
+  FixtureTrack,
+  fixtureId,
+} from './fixtures';
+
+export interface FakeSpotifyServerOptions {
+  port?: number;
+  // Answer every Nth API request with a 429 (0 disables it)
+  rateLimitEvery?: number;
+  retryAfterSeconds?: number;
+  // Refuse /artists/{id}/related-artists with a 403, as Spotify does for newer apps
+  restrictRelatedArtists?: boolean;
+}
+
+export interface FakeSpotifyServer {
+  apiBaseUrl: string;
+  accountsBaseUrl: string;
+  close: () => Promise<void>;
+}
+
+type RouteContext = {
+  method: string;
+  segments: string[];
+  query: URLSearchParams;
+  body: unknown;
+  apiBaseUrl: string;
+};
+
+type RouteResult = { status: number; body?: unknown; headers?: Record<string, string> };
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const ok = (body: unknown): RouteResult => ({ status: 200, body });
+
+function readBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      if (!raw) {
+        resolve(null);
+        return;
+      }
+
+      if ((req.headers['content-type'] ?? '').includes('application/x-www-form-urlencoded')) {
+        resolve(Object.fromEntries(new URLSearchParams(raw)));
+        return;
+      }
+
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
+
+function paginate<T>(
+  items: T[],
+  query: URLSearchParams,
+  url: string,
+  defaultLimit = 20
+): { items: T[]; total: number; limit: number; offset: number; next: string | null } {
+  const limit = Math.min(Number(query.get('limit')) || defaultLimit, 100);
+  const offset = Number(query.get('offset')) || 0;
+  const page = items.slice(offset, offset + limit);
+  const hasMore = offset + limit < items.length;
+  const nextQuery = new URLSearchParams(query);
+  nextQuery.set('offset', String(offset + limit));
+  nextQuery.set('limit', String(limit));
+
+  return {
+    items: page,
+    total: items.length,
+    limit,
+    offset,
+    next: hasMore ? `${url}?${nextQuery.toString()}` : null,
+  };
+}
+
+function idsParam(query: URLSearchParams): string[] {
+  return (query.get('ids') ?? '').split(',').filter(Boolean);
+}
+
+function simplifyArtist(artist: Pick<SpotifyArtist, 'id' | 'name'>) {
+  return {
+    id: artist.id,
+    name: artist.name,
+    type: 'artist',
+    external_urls: { spotify: `https://open.spotify.com/artist/${artist.id}` },
+  };
+}
+
+function serializeTrack(track: FixtureTrack, album?: FixtureAlbum) {
+  return {
+    id: track.id,
+    name: track.name,
+    duration_ms: track.duration_ms,
+    explicit: track.explicit,
+    track_number: track.track_number,
+    uri: track.uri,
+    external_ids: track.external_ids,
+    artists: track.artists.map(simplifyArtist),
+    external_urls: { spotify: `https://open.spotify.com/track/${track.id}` },
+    ...(album ? { album: serializeAlbum(album) } : {}),
+  };
+}
+
+function serializeAlbum(album: FixtureAlbum, albumGroup?: string) {
+  const { trackIds: _trackIds, groups: _groups, ...rest } = album;
+  return {
+    ...rest,
+    ...(albumGroup ? { album_group: albumGroup } : {}),
+    artists: album.artists.map(simplifyArtist),
+  };
+}
+
+function serializePlaylist(playlist: FixturePlaylist, apiBaseUrl: string) {
+  return {
+    id: playlist.id,
+    name: playlist.name,
+    description: playlist.description,
+    owner: playlist.owner,
+    public: playlist.public,
+    tracks: { href: `${apiBaseUrl}/playlists/${playlist.id}/tracks`, total: playlist.tracks.length },
+    images: [],
+    external_urls: { spotify: `https://open.spotify.com/playlist/${playlist.id}` },
+  };
+}
+
+function createRouter(data: FixtureData, options: FakeSpotifyServerOptions) {
+  let playlistCounter = data.playlists.size;
+
+  const requireArtist = (id: string) => {
+    const artist = data.artists.get(id);
+    if (!artist) {
+      throw new HttpError(404, 'Artist not found');
+    }
+    return artist;
+  };
+
+  const requireAlbum = (id: string) => {
+    const album = data.albums.get(id);
+    if (!album) {
+      throw new HttpError(404, 'Album not found');
+    }
+    return album;
+  };
+
+  const requirePlaylist = (id: string) => {
+    const playlist = data.playlists.get(id);
+    if (!playlist) {
+      throw new HttpError(404, 'Playlist not found');
+    }
+    return playlist;
+  };
+
+  const albumWithTracks = (album: FixtureAlbum, apiBaseUrl: string) => {
+    const albumTracks = album.trackIds
+      .map((trackId) => data.tracks.get(trackId))
+      .filter((track): track is FixtureTrack => Boolean(track))
+      .map((track) => serializeTrack(track));
+    return {
+      ...serializeAlbum(album),
+      tracks: paginate(
+        albumTracks,
+        new URLSearchParams({ limit: '50' }),
+        `${apiBaseUrl}/albums/${album.id}/tracks`
+      ),
+    };
+  };
+
+  return (ctx: RouteContext): RouteResult => {
+    const { method, segments, query, body, apiBaseUrl } = ctx;
+    const [resource, id, sub] = segments;
+    const url = `${apiBaseUrl}/${segments.join('/')}`;
+
+    if (resource === 'me') {
+      if (method === 'GET' && !id) {
+        return ok({ ...data.user, type: 'user', uri: `spotify:user:${data.user.id}` });
+      }
+
+      if (id === 'playlists' && method === 'GET') {
+        const owned = Array.from(data.playlists.values()).map((playlist) =>
+          serializePlaylist(playlist, apiBaseUrl)
+        );
+        return ok(paginate(owned, query, url));
+      }
+
+      if (id === 'tracks' && method === 'GET') {
+        const items = data.savedTracks.map((entry) => {
+          const track = data.tracks.get(entry.trackId);
+          return { added_at: entry.addedAt, track: track ? serializeTrack(track) : null };
+        });
+        return ok(paginate(items, query, url));
+      }
+
+      if (id === 'following' && sub === 'contains' && method === 'GET') {
+        return ok(idsParam(query).map((artistId) => data.followedArtistIds.has(artistId)));
+      }
+
+      if (id === 'following' && method === 'GET') {
+        const followed = Array.from(data.followedArtistIds)
+          .map((artistId) => data.artists.get(artistId))
+          .filter((artist): artist is SpotifyArtist => Boolean(artist));
+        const limit = Math.min(Number(query.get('limit')) || 20, 50);
+        const after = query.get('after');
+        const start = after ? followed.findIndex((artist) => artist.id === after) + 1 : 0;
+        const items = followed.slice(start, start + limit);
+        const last = items[items.length - 1];
+        const hasMore = start + limit < followed.length;
+        return ok({
+          artists: {
+            items,
+            total: followed.length,
+            limit,
+            cursors: { after: hasMore && last ? last.id : null },
+            next: hasMore && last ? `${url}?type=artist&limit=${limit}&after=${last.id}` : null,
+          },
+        });
+      }
+
+      if (id === 'following' && (method === 'PUT' || method === 'DELETE')) {
+        for (const artistId of idsParam(query)) {
+          requireArtist(artistId);
+          if (method === 'PUT') {
+            data.followedArtistIds.add(artistId);
+          } else {
+            data.followedArtistIds.delete(artistId);
+          }
+        }
+        return { status: 204 };
+      }
+    }
+
+    if (resource === 'artists') {
+      if (!id && method === 'GET') {
+        return ok({ artists: idsParam(query).map((artistId) => data.artists.get(artistId) ?? null) });
+      }
+
+      if (id && !sub && method === 'GET') {
+        return ok(requireArtist(id));
+      }
+
+      if (id && sub === 'related-artists' && method === 'GET') {
+        if (options.restrictRelatedArtists) {
+          throw new HttpError(403, 'Forbidden');
+        }
+        requireArtist(id);
+        const related = (data.relatedArtistIds.get(id) ?? [])
+          .map((artistId) => data.artists.get(artistId))
+          .filter(Boolean);
+        return ok({ artists: related });
+      }
+
+      if (id && sub === 'albums' && method === 'GET') {
+        requireArtist(id);
+        const groups = (query.get('include_groups') ?? 'album,single,compilation,appears_on').split(
+          ','
+        );
+        // Spotify lists releases grouped by include_group, newest first within a group
+        const releases = groups.flatMap((group) =>
+          Array.from(data.albums.values())
+            .filter((album) => album.groups[id] === group)
+            .sort((a, b) => b.release_date.localeCompare(a.release_date))
+            .map((album) => serializeAlbum(album, group))
+        );
+        return ok(paginate(releases, query, url));
+      }
+    }
+
+    if (resource === 'albums') {
+      if (!id && method === 'GET') {
+        return ok({
+          albums: idsParam(query).map((albumId) => {
+            const album = data.albums.get(albumId);
+            return album ? albumWithTracks(album, apiBaseUrl) : null;
+          }),
+        });
+      }
+
+      if (id && sub === 'tracks' && method === 'GET') {
+        const album = requireAlbum(id);
+        const albumTracks = album.trackIds
+          .map((trackId) => data.tracks.get(trackId))
+          .filter((track): track is FixtureTrack => Boolean(track))
+          .map((track) => serializeTrack(track));
+        return ok(paginate(albumTracks, query, url));
+      }
+
+      if (id && !sub && method === 'GET') {
+        return ok(albumWithTracks(requireAlbum(id), apiBaseUrl));
+      }
+    }
+
+    if (resource === 'tracks' && method === 'GET') {
+      const albumByTrack = new Map<string, FixtureAlbum>();
+      for (const album of data.albums.values()) {
+        for (const trackId of album.trackIds) {
+          albumByTrack.set(trackId, album);
+        }
+      }
+
+      if (id) {
+        const track = data.tracks.get(id);
+        if (!track) {
+          throw new HttpError(404, 'Track not found');
+        }
+        return ok(serializeTrack(track, albumByTrack.get(id)));
+      }
+
+      return ok({
+        tracks: idsParam(query).map((trackId) => {
+          const track = data.tracks.get(trackId);
+          return track ? serializeTrack(track, albumByTrack.get(trackId)) : null;
+        }),
+      });
+    }
+
+    if (resource === 'users' && id && sub === 'playlists' && method === 'POST') {
+      const payload = (body ?? {}) as { name?: string; description?: string; public?: boolean };
+      const playlistId = fixtureId('playlist', playlistCounter++);
+      const playlist: FixturePlaylist = {
+        id: playlistId,
+        name: payload.name ?? 'New Playlist',
+        description: payload.description ?? '',
+        owner: { id: data.user.id, display_name: data.user.display_name },
+        public: payload.public ?? false,
+        tracks: [],
+      };
+      data.playlists.set(playlistId, playlist);
+      return { status: 201, body: serializePlaylist(playlist, apiBaseUrl) };
+    }
+
+    if (resource === 'playlists' && id) {
+      const playlist = requirePlaylist(id);
+
+      if (!sub && method === 'GET') {
+        return ok(serializePlaylist(playlist, apiBaseUrl));
+      }
+
+      if (sub === 'tracks' && method === 'GET') {
+        const items = playlist.tracks.map((entry) => {
+          const track = data.tracks.get(entry.trackId);
+          return {
+            added_at: entry.addedAt,
+            track: track ? serializeTrack(track) : null,
+          };
+        });
+        return ok(paginate(items, query, url, 100));
+      }
+
+      if (sub === 'tracks' && method === 'POST') {
+        const uris = ((body ?? {}) as { uris?: string[] }).uris ?? [];
+        const addedAt = new Date().toISOString();
+        for (const uri of uris) {
+          playlist.tracks.push({ trackId: uri.split(':').pop() ?? uri, addedAt });
+        }
+        return { status: 201, body: { snapshot_id: `demo-snapshot-${Date.now()}` } };
+      }
+
+      if (sub === 'tracks' && method === 'DELETE') {
+        const uris = new Set(
+          (((body ?? {}) as { tracks?: Array<{ uri: string }> }).tracks ?? []).map(
+            (track) => track.uri
+          )
+        );
+        playlist.tracks = playlist.tracks.filter(
+          (entry) => !uris.has(`spotify:track:${entry.trackId}`)
+        );
+        return ok({ snapshot_id: `demo-snapshot-${Date.now()}` });
+      }
+    }
+
+    throw new HttpError(404, `No fake route for ${method} /${segments.join('/')}`);
+  };
+}
+
+/**
+ * Starts a local stand-in for the Spotify Web API and accounts service backed by fixtures.
+ * API routes live under /v1, the token endpoint under /api/token.
+ */
+export async function startFakeSpotifyServer(
+  options: FakeSpotifyServerOptions = {}
+): Promise<FakeSpotifyServer> {
+  const data = createFixtureData();
+  const route = createRouter(data, options);
+  const rateLimitEvery = options.rateLimitEvery ?? 0;
+  const retryAfterSeconds = options.retryAfterSeconds ?? 1;
+  let apiRequestCount = 0;
+  let baseUrl = '';
+
+  const server = http.createServer(async (req, res) => {
+    const send = (result: RouteResult) => {
+      const headers: Record<string, string> = { ...result.headers };
+      if (result.body !== undefined) {
+        headers['Content-Type'] = 'application/json';
+      }
+      res.writeHead(result.status, headers);
+      res.end(result.body !== undefined ? JSON.stringify(result.body) : undefined);
+    };
+
+    try {
+      const requestUrl = new URL(req.url ?? '/', baseUrl);
+      const method = req.method ?? 'GET';
+      const body = await readBody(req);
+
+      if (requestUrl.pathname === '/api/token' && method === 'POST') {
+        const form = (body ?? {}) as Record<string, string>;
+        send(
+          ok({
+            access_token: `demo-access-${Date.now()}`,
+            token_type: 'Bearer',
+            expires_in: 3600,
+            ...(form.grant_type === 'authorization_code'
+              ? { refresh_token: 'demo-refresh-token' }
+              : {}),
+          })
+        );
+        return;
+      }
+
+      if (requestUrl.pathname === '/authorize') {
+        const redirectUri = requestUrl.searchParams.get('redirect_uri');
+        if (!redirectUri) {
+          throw new HttpError(400, 'Missing redirect_uri');
+        }
+        send({ status: 302, headers: { Location: `${redirectUri}?code=demo-code` } });
+        return;
+      }
+
+      const segments = requestUrl.pathname.split('/').filter(Boolean);
+      if (segments[0] !== 'v1') {
+        throw new HttpError(404, 'Not found');
+      }
+
+      if (!req.headers.authorization?.startsWith('Bearer ')) {
+        throw new HttpError(401, 'No token provided');
+      }
+
+      apiRequestCount += 1;
+      if (rateLimitEvery > 0 && apiRequestCount % rateLimitEvery === 0) {
+        send({
+          status: 429,
+          headers: { 'Retry-After': String(retryAfterSeconds) },
+          body: { error: { status: 429, message: 'API rate limit exceeded' } },
+        });
+        return;
+      }
+
+      send(
+        route({
+          method,
+          segments: segments.slice(1),
+          query: requestUrl.searchParams,
+          body,
+          apiBaseUrl: `${baseUrl}/v1`,
+        })
+      );
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      send({ status, body: { error: { status, message: (error as Error).message } } });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+  });
+
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    apiBaseUrl: `${baseUrl}/v1`,
+    accountsBaseUrl: baseUrl,
+    close: () =>
+      new Promise<void>((resolve) => {
+        // Keep-alive sockets from axios would otherwise hold the server open until they time out
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+if (require.main === module) {
+  startFakeSpotifyServer({
+    port: Number(process.env.FAKE_SPOTIFY_PORT) || 8899,
+    rateLimitEvery: Number(process.env.FAKE_SPOTIFY_RATE_LIMIT_EVERY) || 0,
+    restrictRelatedArtists: process.env.FAKE_SPOTIFY_RESTRICT_RELATED === '1',
+  })
+    .then((server) => {
+      console.log('[fake-spotify] Listening. Point the app at it with:');
+      console.log(`  SPOTIFY_API_BASE_URL=${server.apiBaseUrl}`);
+      console.log(`  SPOTIFY_ACCOUNTS_BASE_URL=${server.accountsBaseUrl}`);
+    })
+    .catch((error) => {
+      console.error('[fake-spotify] Failed to start:', error);
+      process.exitCode = 1;
+    });
+}
@@ -0,0 +1,374 @@
+import type { SpotifyAlbum, SpotifyArtist } from '../../shared/types';
+
+export type FixtureAlbumGroup = 'album' | 'single' | 'compilation' | 'appears_on';
+
+export interface FixtureTrack {
+  id: string;
+  name: string;
+  duration_ms: number;
+  explicit: boolean;
+  track_number: number;
+  artists: Array<Pick<SpotifyArtist, 'id' | 'name'>>;
+  external_ids: { isrc: string };
+  uri: string;
+}
+
+export interface FixtureAlbum extends Omit<SpotifyAlbum, 'artists'> {
+  artists: Array<Pick<SpotifyArtist, 'id' | 'name'>>;
+  trackIds: string[];
+  // Which artists list this release under which include_group
+  groups: Record<string, FixtureAlbumGroup>;
+}
+
+export interface FixturePlaylist {
+  id: string;
+  name: string;
+  description: string;
+  owner: { id: string; display_name: string };
+  public: boolean;
+  tracks: Array<{ trackId: string; addedAt: string }>;
+}
+
+export interface FixtureUser {
+  id: string;
+  display_name: string;
+  country: string;
+  product: string;
+}
+
+export interface FixtureData {
+  user: FixtureUser;
+  artists: Map<string, SpotifyArtist>;
+  albums: Map<string, FixtureAlbum>;
+  tracks: Map<string, FixtureTrack>;
+  playlists: Map<string, FixturePlaylist>;
+  followedArtistIds: Set<string>;
+  relatedArtistIds: Map<string, string[]>;
+  // Liked Songs, most recently saved first
+  savedTracks: Array<{ trackId: string; addedAt: string }>;
+}
+
+const FOLLOWED_ARTIST_NAMES = [
+  'Aurora Vale',
+  'The Midnight Ferns',
+  'Kaito Sunrise',
+  'Lumen Drift',
+  'Marisol & The Tides',
+  'Northbound Static',
+  'Okapi Jazz Trio',
+  'Pale Harbor',
+  'Quartz Lullaby',
+  'Rosa Kettle',
+];
+
+const UNFOLLOWED_ARTIST_NAMES = [
+  'Silver Arcade',
+  'Tundra Bloom',
+  'Umbra Collective',
+  'Velvet Monsoon',
+  'Willow Parade',
+  'Xenon Heights',
+  'Yellow Tram',
+  'Zephyr Kids',
+  'Amber Loop',
+  'Basalt Choir',
+  'Cinder Avenue',
+  'Dune Postcards',
+  'Echo Gardens',
+  'Fable Motors',
+];
+
+const GENRES = [
+  'indie pop',
+  'dream pop',
+  'synthwave',
+  'nu jazz',
+  'bedroom pop',
+  'shoegaze',
+  'lo-fi beats',
+  'art rock',
+  'neo soul',
+  'ambient',
+];
+
+const TRACK_WORDS = [
+  'Glass',
+  'Harbor',
+  'Neon',
+  'Paper',
+  'Satellite',
+  'Velvet',
+  'Winter',
+  'Echo',
+  'Golden',
+  'Static',
+  'River',
+  'Lantern',
+];
+
+// Followed artists at these indexes have not released anything in years
+const STALE_ARTIST_INDEXES = new Set([8, 9]);
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const DEMO_USER_ID = 'demo-user';
+
+export function fixtureId(kind: string, index: number): string {
+  const prefix = `demo${kind}`;
+  return `${prefix}${String(index).padStart(22 - prefix.length, '0')}`;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function daysAgo(now: Date, days: number): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+function pick<T>(items: T[], index: number): T {
+  return items[index % items.length];
+}
+
+/**
+ * Builds a deterministic catalog whose release dates are relative to `now`,
+ * so the release finder always has something recent to show.
+ */
+export function createFixtureData(now = new Date()): FixtureData {
+  const artists = new Map<string, SpotifyArtist>();
+  const albums = new Map<string, FixtureAlbum>();
+  const tracks = new Map<string, FixtureTrack>();
+  const playlists = new Map<string, FixturePlaylist>();
+  const followedArtistIds = new Set<string>();
+  const relatedArtistIds = new Map<string, string[]>();
+
+  const allNames = [...FOLLOWED_ARTIST_NAMES, ...UNFOLLOWED_ARTIST_NAMES];
+  allNames.forEach((name, index) => {
+    const id = fixtureId('artist', index);
+    artists.set(id, {
+      id,
+      name,
+      genres: [pick(GENRES, index), pick(GENRES, index + 3)],
+      popularity: 30 + ((index * 17) % 65),
+      images: [],
+      external_urls: { spotify: `https://open.spotify.com/artist/${id}` },
+    });
+    if (index < FOLLOWED_ARTIST_NAMES.length) {
+      followedArtistIds.add(id);
+    }
+  });
+
+  const artistList = Array.from(artists.values());
+  artistList.forEach((artist, index) => {
+    relatedArtistIds.set(
+      artist.id,
+      [1, 2, 3, 5, 8].map((step) => artistList[(index + step) % artistList.length].id)
+    );
+  });
+
+  let albumCounter = 0;
+  let trackCounter = 0;
+  let isrcCounter = 0;
+
+  const addAlbum = (
+    mainArtists: SpotifyArtist[],
+    albumType: SpotifyAlbum['album_type'],
+    name: string,
+    releaseDate: string,
+    precision: SpotifyAlbum['release_date_precision'],
+    trackSpecs: Array<{ name: string; isrc?: string; featuring?: SpotifyArtist; artist?: SpotifyArtist }>
+  ): FixtureAlbum => {
+    const albumId = fixtureId('album', albumCounter++);
+    const trackIds = trackSpecs.map((spec, trackIndex) => {
+      const trackId = fixtureId('track', trackCounter++);
+      const performer = spec.artist ?? mainArtists[0];
+      const trackArtists = [performer, ...(spec.featuring ? [spec.featuring] : [])];
+      tracks.set(trackId, {
+        id: trackId,
+        name: spec.name,
+        duration_ms: 150000 + ((trackCounter * 7919) % 120000),
+        explicit: trackCounter % 9 === 0,
+        track_number: trackIndex + 1,
+        artists: trackArtists.map(({ id, name: artistName }) => ({ id, name: artistName })),
+        external_ids: { isrc: spec.isrc ?? `QZDEMO${String(isrcCounter++).padStart(6, '0')}` },
+        uri: `spotify:track:${trackId}`,
+      });
+      return trackId;
+    });
+
+    const groups: Record<string, FixtureAlbumGroup> = {};
+    for (const artist of mainArtists) {
+      groups[artist.id] = albumType;
+    }
+    for (const trackId of trackIds) {
+      for (const trackArtist of tracks.get(trackId)?.artists ?? []) {
+        groups[trackArtist.id] = groups[trackArtist.id] ?? 'appears_on';
+      }
+    }
+
+    const album: FixtureAlbum = {
+      id: albumId,
+      name,
+      artists: mainArtists.map(({ id, name: artistName }) => ({ id, name: artistName })),
+      album_type: albumType,
+      release_date: releaseDate,
+      release_date_precision: precision,
+      total_tracks: trackIds.length,
+      images: [],
+      external_urls: { spotify: `https://open.spotify.com/album/${albumId}` },
+      trackIds,
+      groups,
+    };
+    albums.set(albumId, album);
+    return album;
+  };
+
+  artistList.forEach((artist, index) => {
+    const isFollowed = followedArtistIds.has(artist.id);
+    const collaborator = artistList[(index + 4) % artistList.length];
+    const word = (offset: number) => pick(TRACK_WORDS, index + offset);
+
+    if (isFollowed && STALE_ARTIST_INDEXES.has(index)) {
+      addAlbum([artist], 'album', `${word(0)} Archives`, isoDate(daysAgo(now, 700 + index * 30)), 'day', [
+        { name: `${word(1)} Days` },
+        { name: `${word(2)} Nights` },
+        { name: `${word(3)} Reprise` },
+      ]);
+      return;
+    }
+
+    // The lead single shares its ISRC with the album's opening track
+    const leadIsrc = `QZDEMO9${String(index).padStart(5, '0')}`;
+    const leadName = `${word(0)} ${word(5)}`;
+
+    if (isFollowed) {
+      addAlbum([artist], 'single', leadName, isoDate(daysAgo(now, 1 + (index % 5))), 'day', [
+        { name: leadName, isrc: leadIsrc },
+      ]);
+      addAlbum([artist], 'single', `${leadName} (Sped Up)`, isoDate(daysAgo(now, 2 + (index % 4))), 'day', [
+        { name: `${leadName} - Sped Up` },
+      ]);
+    }
+
+    addAlbum(
+      [artist],
+      'album',
+      `${word(2)} ${isFollowed ? 'Season' : 'Sketches'}`,
+      isoDate(daysAgo(now, isFollowed ? 6 + index * 2 : 20 + index * 3)),
+      'day',
+      [
+        { name: leadName, isrc: leadIsrc },
+        { name: `${word(3)} Lines`, featuring: collaborator },
+        { name: `${word(4)} Parade` },
+        { name: `${word(6)} (Live)` },
+        { name: `${word(7)} Interlude` },
+      ]
+    );
+
+    addAlbum([artist], 'single', `${word(8)} Signals`, isoDate(daysAgo(now, 40 + index * 5)), 'day', [
+      { name: `${word(8)} Signals` },
+      { name: `${word(8)} Signals - Instrumental` },
+    ]);
+
+    if (index % 4 === 0) {
+      // Only month precision is known for this one
+      addAlbum([artist], 'album', `${word(9)} Tapes`, isoDate(now).slice(0, 7), 'month', [
+        { name: `${word(9)} Tape One` },
+        { name: `${word(10)} Tape Two` },
+      ]);
+    }
+
+    if (isFollowed && index % 5 === 2) {
+      addAlbum([artist], 'compilation', `The Best of ${artist.name}`, isoDate(daysAgo(now, 4)), 'day', [
+        { name: leadName, isrc: leadIsrc },
+        { name: `${word(8)} Signals` },
+        { name: `${word(4)} Parade` },
+      ]);
+    }
+
+    addAlbum([artist], 'album', `Early ${word(11)}`, String(now.getUTCFullYear() - 3), 'year', [
+      { name: `${word(11)} Demo` },
+      { name: `${word(1)} Demo` },
+    ]);
+  });
+
+  const variousArtists = { id: fixtureId('artist', 999), name: 'Various Artists' } as SpotifyArtist;
+  addAlbum(
+    [variousArtists],
+    'compilation',
+    'Demo Summer Sampler',
+    isoDate(daysAgo(now, 3)),
+    'day',
+    artistList.slice(0, 6).map((artist, index) => ({
+      name: `${pick(TRACK_WORDS, index + 2)} Sampler Cut`,
+      artist,
+    }))
+  );
+
+  const allTrackIds = Array.from(tracks.keys());
+  const buildPlaylist = (
+    index: number,
+    name: string,
+    owner: FixturePlaylist['owner'],
+    trackIds: string[]
+  ) => {
+    const id = fixtureId('playlist', index);
+    playlists.set(id, {
+      id,
+      name,
+      description: `${name} - demo playlist`,
+      owner,
+      public: true,
+      tracks: trackIds.map((trackId, trackIndex) => ({
+        trackId,
+        addedAt: daysAgo(now, trackIndex + 1).toISOString(),
+      })),
+    });
+  };
+
+  const curator = { id: 'demo-curator', display_name: 'Demo Curator' };
+  buildPlaylist(
+    0,
+    'Indie Discoveries',
+    curator,
+    allTrackIds.filter((_, index) => index % 3 === 0)
+  );
+  buildPlaylist(
+    1,
+    'Late Night Jazz',
+    curator,
+    allTrackIds.filter((_, index) => index % 5 === 1)
+  );
+  buildPlaylist(
+    2,
+    'Weekly Picks',
+    { id: 'demo-friend', display_name: 'Demo Friend' },
+    allTrackIds.filter((_, index) => index % 7 === 2)
+  );
+  buildPlaylist(
+    3,
+    'My Favorites',
+    { id: DEMO_USER_ID, display_name: 'Demo Listener' },
+    allTrackIds.filter((_, index) => index % 11 === 0)
+  );
+
+  const savedTracks = allTrackIds
+    .filter((_, index) => index % 4 === 3)
+    .map((trackId, index) => ({ trackId, addedAt: daysAgo(now, index * 2 + 1).toISOString() }));
+
+  return {
+    user: {
+      id: DEMO_USER_ID,
+      display_name: 'Demo Listener',
+      country: 'SE',
+      product: 'premium',
+    },
+    artists,
+    albums,
+    tracks,
+    playlists,
+    followedArtistIds,
+    relatedArtistIds,
+    savedTracks,
+  };
+}
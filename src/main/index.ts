@@ -1,9 +1,29 @@
 import dotenv from 'dotenv';
 import fs from 'fs';
-import { app, BrowserWindow, ipcMain, shell, IpcMainInvokeEvent, dialog } from 'electron';
+import {
+  app,
+  BrowserWindow,
+  ipcMain,
+  shell,
+  IpcMainInvokeEvent,
+  dialog,
+  Menu,
+  nativeImage,
+  Notification,
+  Tray,
+} from 'electron';
 import * as path from 'path';
 import { SpotifyService } from './services/SpotifyService';
 import { AuthService } from './services/AuthService';
+import { CacheStore } from './services/CacheStore';
+import { SettingsService } from './services/SettingsService';
+import { FollowHistoryService } from './services/FollowHistoryService';
+import { ScanScheduleService } from './services/ScanScheduleService';
+import { AutomationApiServer } from './services/AutomationApiServer';
+import { JobManager } from './services/JobManager';
+import { OperationCancelledError } from './utils/cancellation';
+import { TRAY_ICON_DATA_URL } from './utils/trayIcon';
+import { CLI_EXIT_CODES, CLI_USAGE, CliOptions, parseCliArgs, runCli } from './cli';
 import {
   IPC_CHANNELS,
   ProgressUpdate,
@@ -13,10 +33,29 @@ import {
 } from '../shared/types';
 import type {
   AnalyzePlaylistRequest,
+  AnalyzePlaylistsRequest,
+  CancellableOperation,
+  CancelOperationRequest,
+  FindStaleArtistsRequest,
   FollowArtistsRequest,
+  FollowHistoryAction,
+  FollowArtistsResponse,
+  FollowHistorySource,
+  GetFollowedArtistsRequest,
+  GetLastReleaseDatesRequest,
   GetRelatedArtistsRequest,
+  GetReleaseTracksRequest,
+  GetUserPlaylistsRequest,
+  ScanReleasesBatch,
   ScanReleasesRequest,
+  ScheduledScanRun,
   CreatePlaylistRequest,
+  SettingsResponse,
+  JobRequest,
+  UnfollowArtistsRequest,
+  UnfollowArtistsResponse,
+  UndoFollowHistoryRequest,
+  UpdateSettingsRequest,
 } from '../shared/types';
 import { autoUpdater, UpdateInfo } from 'electron-updater';
 
@@ -53,6 +92,21 @@ function loadEnvironmentVariables() {
   console.log('[env] Loaded environment variables using default resolution');
 }
 
+// Started with --scan from a script or cron job: run once without a window, then exit
+let cliOptions: CliOptions | null = null;
+try {
+  cliOptions = parseCliArgs(process.argv.slice(app.isPackaged ? 1 : 2));
+} catch (error) {
+  process.stderr.write(`${(error as Error).message}\n\n${CLI_USAGE}\n`);
+  process.exit(CLI_EXIT_CODES.invalidArguments);
+}
+
+if (cliOptions) {
+  // stdout is reserved for the JSON result, so the app's own logging goes to stderr
+  console.log = console.error;
+  console.info = console.error;
+}
+
 loadEnvironmentVariables();
 
 autoUpdater.logger = console;
@@ -60,6 +114,14 @@ autoUpdater.logger = console;
 let mainWindow: BrowserWindow | null = null;
 let spotifyService: SpotifyService | null = null;
 let authService: AuthService | null = null;
+let cacheStore: CacheStore | null = null;
+let settingsService: SettingsService | null = null;
+let followHistoryService: FollowHistoryService | null = null;
+let scanScheduleService: ScanScheduleService | null = null;
+let automationApiServer: AutomationApiServer | null = null;
+let tray: Tray | null = null;
+// Closing the window only hides it while scans are scheduled, until the app really quits
+let isQuitting = false;
 let startupError: Error | null = null;
 
 // Update checking configuration
@@ -77,6 +139,256 @@ function sendToRenderer(channel: IpcChannel, payload: unknown) {
   mainWindow.webContents.send(channel, payload);
 }
 
+const OPERATION_PROGRESS_CHANNELS: Record<CancellableOperation, IpcChannel> = {
+  'analyze-playlist': IPC_CHANNELS.ANALYZE_PLAYLIST_PROGRESS,
+  'follow-artists': IPC_CHANNELS.FOLLOW_ARTISTS_PROGRESS,
+  'related-artists': IPC_CHANNELS.RELATED_ARTISTS_PROGRESS,
+  'unfollow-artists': IPC_CHANNELS.UNFOLLOW_ARTISTS_PROGRESS,
+  'last-release-dates': IPC_CHANNELS.LAST_RELEASE_DATES_PROGRESS,
+  'stale-artists': IPC_CHANNELS.STALE_ARTISTS_PROGRESS,
+  'scan-releases': IPC_CHANNELS.SCAN_RELEASES_PROGRESS,
+  'release-tracks': IPC_CHANNELS.RELEASE_TRACKS_PROGRESS,
+  'create-playlist': IPC_CHANNELS.CREATE_PLAYLIST_PROGRESS,
+};
+
+const jobManager = new JobManager((job) => sendToRenderer(IPC_CHANNELS.JOBS_UPDATED, job));
+
+/**
+ * Runs an operation for the window as a job, queued behind any running job of the same
+ * kind. Progress goes to the job and to the operation's progress channel.
+ */
+async function runAppJob<T>(
+  type: CancellableOperation,
+  label: string,
+  task: (
+    service: SpotifyService,
+    onProgress: (progress: ProgressUpdate) => void,
+    signal: AbortSignal
+  ) => Promise<T>
+): Promise<T> {
+  const service = spotifyService;
+  if (!service) {
+    throw new Error('Not authenticated');
+  }
+
+  const progressChannel = OPERATION_PROGRESS_CHANNELS[type];
+  const { job, result } = jobManager.run(
+    type,
+    ({ signal, reportProgress }) =>
+      task(
+        service,
+        (progress) => {
+          reportProgress(progress);
+          sendToRenderer(progressChannel, progress);
+        },
+        signal
+      ),
+    { label }
+  );
+  if (job.status === 'queued') {
+    sendToRenderer(progressChannel, {
+      current: 0,
+      total: 1,
+      message: 'Waiting for another run to finish...',
+    });
+  }
+  return result;
+}
+
+// Artists a bulk follow/unfollow actually changed, in request order without duplicates
+function getChangedArtistIds(
+  requestedIds: string[],
+  result: { failedArtists: string[]; skippedArtists: string[] }
+): string[] {
+  const unchanged = new Set([...result.failedArtists, ...result.skippedArtists]);
+  return Array.from(new Set(requestedIds)).filter((artistId) => !unchanged.has(artistId));
+}
+
+// A broken history file must not fail the follow itself, so errors are only logged
+function recordFollowHistory(
+  action: FollowHistoryAction,
+  artistIds: string[],
+  options: { source?: FollowHistorySource | null; artistNames?: Record<string, string>; undoOf?: string }
+) {
+  try {
+    followHistoryService?.record(action, artistIds, options);
+  } catch (error) {
+    console.error('Failed to record follow history:', error);
+  }
+}
+
+// Background work can start before the window has checked the login, so restore it here too
+function restoreSpotifyService(): SpotifyService | null {
+  if (!spotifyService && authService) {
+    const tokens = authService.getStoredTokens();
+    if (tokens) {
+      spotifyService = new SpotifyService(tokens, authService, cacheStore, settingsService);
+    }
+  }
+  return spotifyService;
+}
+
+async function applyAutomationApiSettings() {
+  if (!automationApiServer || !settingsService) return;
+
+  const { automationApi } = settingsService.get();
+  if (automationApi.enabled && automationApi.token) {
+    await automationApiServer.start(automationApi.port, automationApi.token);
+  } else {
+    await automationApiServer.stop();
+  }
+}
+
+/**
+ * Scans with the scheduled look-back and the saved markets and filters, then adds the
+ * releases to the rolling or a new dated playlist if the schedule asks for it.
+ */
+async function runScheduledScan(): Promise<ScheduledScanRun | null> {
+  // Don't pile up behind a scan that is already running; the schedule tries again on its next check
+  if (jobManager.hasActive('scan-releases')) {
+    return null;
+  }
+
+  const startedAt = Date.now();
+  let run: ScheduledScanRun;
+  try {
+    const service = restoreSpotifyService();
+    if (!service || !settingsService) {
+      throw new Error('Not authenticated');
+    }
+
+    const { scanSchedule, rollingPlaylist, releaseFilters, extraScanMarkets } =
+      settingsService.get();
+    const job = jobManager.run(
+      'scan-releases',
+      async ({ signal, reportProgress }) => {
+        const result = await service.scanRecentReleases(
+          scanSchedule.daysBack,
+          undefined,
+          reportProgress,
+          signal,
+          extraScanMarkets,
+          releaseFilters
+        );
+        if (result.cancelled) {
+          throw new OperationCancelledError('The scan was cancelled');
+        }
+
+        const scheduledRun: ScheduledScanRun = {
+          startedAt,
+          finishedAt: 0,
+          succeeded: true,
+          releasesFound: result.releases.length,
+          newReleases: result.newReleases.length,
+        };
+        if (scanSchedule.createPlaylist && result.releases.length > 0) {
+          const playlistName = rollingPlaylist.enabled
+            ? rollingPlaylist.playlistName
+            : `New Releases - ${new Date().toISOString().split('T')[0]}`;
+          const playlist = await service.createPlaylistFromReleases(
+            playlistName,
+            result.releases,
+            false,
+            reportProgress,
+            signal,
+            rollingPlaylist.enabled ? 'rolling' : 'new',
+            releaseFilters
+          );
+          scheduledRun.playlistName = playlistName;
+          scheduledRun.playlistUrl = playlist.playlistUrl;
+          scheduledRun.tracksAdded = playlist.tracksAdded;
+        }
+        return scheduledRun;
+      },
+      { origin: 'schedule', label: `Last ${scanSchedule.daysBack} days` }
+    );
+    run = await job.result;
+  } catch (error) {
+    console.error('Scheduled scan error:', error);
+    run = {
+      startedAt,
+      finishedAt: 0,
+      succeeded: false,
+      releasesFound: 0,
+      newReleases: 0,
+      error: (error as Error).message,
+    };
+  }
+
+  run.finishedAt = Date.now();
+  notifyScheduledScan(run);
+  return run;
+}
+
+function notifyScheduledScan(run: ScheduledScanRun) {
+  if (!Notification.isSupported()) return;
+
+  let body: string;
+  if (run.error) {
+    body = `Scan failed: ${run.error}`;
+  } else if (run.releasesFound === 0) {
+    body = 'No new releases from the artists you follow.';
+  } else {
+    body = `${run.releasesFound} release(s) found, ${run.newReleases} new since the last scan.`;
+    if (run.playlistName) {
+      body += ` Added ${run.tracksAdded ?? 0} tracks to ${run.playlistName}.`;
+    }
+  }
+
+  const notification = new Notification({ title: 'Scheduled release scan', body });
+  notification.on('click', showMainWindow);
+  notification.show();
+}
+
+function showMainWindow() {
+  if (!mainWindow) {
+    createWindow();
+    return;
+  }
+  mainWindow.show();
+  mainWindow.focus();
+}
+
+// The tray icon only exists while scans are scheduled
+function updateTray() {
+  const status = scanScheduleService?.getStatus();
+  if (!status?.nextRunAt) {
+    tray?.destroy();
+    tray = null;
+    return;
+  }
+
+  if (!tray) {
+    tray = new Tray(nativeImage.createFromDataURL(TRAY_ICON_DATA_URL));
+    tray.on('click', showMainWindow);
+  }
+  tray.setToolTip(`Spotify Release Hub - next scan ${new Date(status.nextRunAt).toLocaleString()}`);
+  tray.setContextMenu(
+    Menu.buildFromTemplate([
+      { label: 'Open Spotify Release Hub', click: showMainWindow },
+      {
+        label: 'Run Scheduled Scan Now',
+        enabled: !status.running,
+        click: () => {
+          scanScheduleService
+            ?.runNow()
+            .catch((error) => console.error('Scheduled scan error:', error))
+            .finally(updateTray);
+          updateTray();
+        },
+      },
+      { type: 'separator' },
+      {
+        label: 'Quit',
+        click: () => {
+          isQuitting = true;
+          app.quit();
+        },
+      },
+    ])
+  );
+}
+
 async function checkForUpdates(triggeredByUser = false) {
   if (app.isPackaged) {
     autoUpdater.checkForUpdatesAndNotify();
@@ -124,6 +436,14 @@ function createWindow() {
     }
   });
 
+  mainWindow.on('close', (event) => {
+    // Stay in the tray so scheduled scans keep running
+    if (tray && !isQuitting) {
+      event.preventDefault();
+      mainWindow?.hide();
+    }
+  });
+
   mainWindow.on('closed', () => {
     mainWindow = null;
   });
@@ -143,9 +463,65 @@ try {
   console.error('[startup] Failed to initialize authentication service:', startupError);
 }
 
+try {
+  cacheStore = new CacheStore();
+} catch (error) {
+  // The app still works without the on-disk cache, it just starts cold
+  console.error('[startup] Failed to initialize persistent cache:', error);
+}
+
+try {
+  settingsService = new SettingsService();
+} catch (error) {
+  console.error('[startup] Failed to initialize settings store:', error);
+}
+
+try {
+  followHistoryService = new FollowHistoryService();
+} catch (error) {
+  console.error('[startup] Failed to initialize follow history:', error);
+}
+
+try {
+  if (settingsService) {
+    const settings = settingsService;
+    scanScheduleService = new ScanScheduleService(
+      () => settings.get().scanSchedule,
+      runScheduledScan
+    );
+  }
+} catch (error) {
+  console.error('[startup] Failed to initialize scan schedule:', error);
+}
+
+automationApiServer = new AutomationApiServer(jobManager, {
+  getSpotifyService: restoreSpotifyService,
+  getSettings: () => settingsService?.get() ?? null,
+  onArtistsFollowed: (request, result) => {
+    recordFollowHistory('follow', getChangedArtistIds(request.artistIds, result), {
+      ...request,
+      source: request.source ?? { label: 'Automation API' },
+    });
+  },
+});
+
 // App lifecycle
-app.whenReady().then(() => {
+app.whenReady().then(async () => {
+  if (cliOptions) {
+    app.dock?.hide();
+    if (startupError) {
+      process.stderr.write(`${startupError.message}\n`);
+      app.exit(CLI_EXIT_CODES.failed);
+      return;
+    }
+    app.exit(await runCli(cliOptions, { authService, cacheStore, settingsService }));
+    return;
+  }
+
   createWindow();
+  scanScheduleService?.start();
+  updateTray();
+  applyAutomationApiSettings();
 
   if (startupError) {
     dialog.showErrorBox('Configuration error', startupError.message);
@@ -172,7 +548,8 @@ app.on('window-all-closed', () => {
 });
 
 app.on('before-quit', () => {
-  // No need to clear interval as it's not set anymore
+  isQuitting = true;
+  spotifyService?.flushCache();
 });
 
 autoUpdater.on('update-available', (info: UpdateInfo) => {
@@ -229,7 +606,7 @@ ipcMain.handle(IPC_CHANNELS.AUTH_START, async () => {
     if (spotifyService) {
       spotifyService.setTokens(tokens);
     } else {
-      spotifyService = new SpotifyService(tokens, authService);
+      spotifyService = new SpotifyService(tokens, authService, cacheStore, settingsService);
     }
     return { success: true };
   } catch (error) {
@@ -238,18 +615,39 @@ ipcMain.handle(IPC_CHANNELS.AUTH_START, async () => {
   }
 });
 
+ipcMain.handle(IPC_CHANNELS.AUTH_DEMO, async () => {
+  try {
+    if (!authService) {
+      throw new Error('Authentication service not available');
+    }
+
+    // Demo data lives in its own cache bucket, so always start from a fresh service
+    spotifyService?.flushCache();
+    const tokens = await authService.startDemoSession();
+    spotifyService = new SpotifyService(tokens, authService, cacheStore, settingsService);
+    return { success: true };
+  } catch (error) {
+    console.error('Demo mode error:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
 ipcMain.handle(IPC_CHANNELS.AUTH_CHECK, async () => {
   try {
     if (!authService) {
       throw new Error('Authentication service not available');
     }
 
+    if (authService.isDemoMode() && spotifyService) {
+      return { authenticated: true, demo: true };
+    }
+
     const tokens = authService.getStoredTokens();
     if (tokens) {
       if (spotifyService) {
         spotifyService.setTokens(tokens);
       } else {
-        spotifyService = new SpotifyService(tokens, authService);
+        spotifyService = new SpotifyService(tokens, authService, cacheStore, settingsService);
       }
       return { authenticated: true };
     }
@@ -265,22 +663,20 @@ ipcMain.handle(IPC_CHANNELS.AUTH_CHECK, async () => {
 ipcMain.handle(IPC_CHANNELS.AUTH_LOGOUT, async () => {
   if (authService) {
     authService.clearTokens();
+    await authService.endDemoSession();
   }
+  jobManager.cancelAll();
+  spotifyService?.flushCache();
   spotifyService = null;
   return { success: true };
 });
 
 ipcMain.handle(IPC_CHANNELS.ANALYZE_PLAYLIST, async (_event: IpcMainInvokeEvent, request: AnalyzePlaylistRequest) => {
   try {
-    if (!spotifyService) {
-      throw new Error('Not authenticated');
-    }
-
-    const result = await spotifyService.analyzePlaylist(
-      request.playlistUrl,
-      (progress: ProgressUpdate) => {
-        mainWindow?.webContents.send(IPC_CHANNELS.ANALYZE_PLAYLIST_PROGRESS, progress);
-      }
+    const result = await runAppJob(
+      'analyze-playlist',
+      request.source,
+      (service, onProgress, signal) => service.analyzeSource(request.source, onProgress, signal)
     );
 
     return { success: true, data: result };
@@ -290,18 +686,32 @@ ipcMain.handle(IPC_CHANNELS.ANALYZE_PLAYLIST, async (_event: IpcMainInvokeEvent,
   }
 });
 
-ipcMain.handle(IPC_CHANNELS.FOLLOW_ARTISTS, async (_event: IpcMainInvokeEvent, request: FollowArtistsRequest) => {
-  try {
-    if (!spotifyService) {
-      throw new Error('Not authenticated');
+ipcMain.handle(
+  IPC_CHANNELS.ANALYZE_PLAYLISTS,
+  async (_event: IpcMainInvokeEvent, request: AnalyzePlaylistsRequest) => {
+    try {
+      const result = await runAppJob(
+        'analyze-playlist',
+        `${request.sources.length} sources`,
+        (service, onProgress, signal) => service.analyzeSources(request.sources, onProgress, signal)
+      );
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error('Analyze playlists error:', error);
+      return { success: false, error: (error as Error).message };
     }
+  }
+);
 
-    const result = await spotifyService.followArtistsBulk(
-      request.artistIds,
-      (progress: ProgressUpdate) => {
-        mainWindow?.webContents.send(IPC_CHANNELS.FOLLOW_ARTISTS_PROGRESS, progress);
-      }
+ipcMain.handle(IPC_CHANNELS.FOLLOW_ARTISTS, async (_event: IpcMainInvokeEvent, request: FollowArtistsRequest) => {
+  try {
+    const result = await runAppJob(
+      'follow-artists',
+      `${request.artistIds.length} artists`,
+      (service, onProgress, signal) => service.followArtistsBulk(request.artistIds, onProgress, signal)
     );
+    recordFollowHistory('follow', getChangedArtistIds(request.artistIds, result), request);
 
     return { success: true, data: result };
   } catch (error) {
@@ -313,32 +723,183 @@ ipcMain.handle(IPC_CHANNELS.FOLLOW_ARTISTS, async (_event: IpcMainInvokeEvent, r
 ipcMain.handle(
   IPC_CHANNELS.RELATED_ARTISTS,
   async (_event: IpcMainInvokeEvent, request: GetRelatedArtistsRequest) => {
+    try {
+      const result = await runAppJob(
+        'related-artists',
+        `${request.artistIds.length} artists`,
+        (service, onProgress, signal) =>
+          service.getRelatedArtists(request.artistIds, request.depth, onProgress, signal)
+      );
+      return { success: true, data: result };
+    } catch (error) {
+      console.error('Get related artists error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+);
+
+ipcMain.handle(
+  IPC_CHANNELS.FOLLOWED_ARTISTS,
+  async (_event: IpcMainInvokeEvent, request?: GetFollowedArtistsRequest) => {
     try {
       if (!spotifyService) {
         throw new Error('Not authenticated');
       }
 
-      const artists = await spotifyService.getRelatedArtists(request.artistIds);
+      const artists = await spotifyService.listFollowedArtists(Boolean(request?.refresh));
       return { success: true, data: { artists } };
     } catch (error) {
-      console.error('Get related artists error:', error);
+      console.error('Get followed artists error:', error);
       return { success: false, error: (error as Error).message };
     }
   }
 );
 
-ipcMain.handle(IPC_CHANNELS.SCAN_RELEASES, async (_event: IpcMainInvokeEvent, request: ScanReleasesRequest) => {
+ipcMain.handle(
+  IPC_CHANNELS.LAST_RELEASE_DATES,
+  async (_event: IpcMainInvokeEvent, request: GetLastReleaseDatesRequest) => {
+    try {
+      const result = await runAppJob(
+        'last-release-dates',
+        `${request.artistIds.length} artists`,
+        (service, onProgress, signal) =>
+          service.getLastReleaseDates(request.artistIds, onProgress, signal)
+      );
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error('Last release dates error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+);
+
+ipcMain.handle(IPC_CHANNELS.UNFOLLOW_ARTISTS, async (_event: IpcMainInvokeEvent, request: UnfollowArtistsRequest) => {
   try {
-    if (!spotifyService) {
-      throw new Error('Not authenticated');
+    const result = await runAppJob(
+      'unfollow-artists',
+      `${request.artistIds.length} artists`,
+      (service, onProgress, signal) =>
+        service.unfollowArtistsBulk(request.artistIds, onProgress, signal)
+    );
+    recordFollowHistory('unfollow', getChangedArtistIds(request.artistIds, result), request);
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error('Unfollow artists error:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle(
+  IPC_CHANNELS.STALE_ARTISTS,
+  async (_event: IpcMainInvokeEvent, request: FindStaleArtistsRequest) => {
+    try {
+      const result = await runAppJob(
+        'stale-artists',
+        `Quiet for ${request.monthsQuiet} months`,
+        (service, onProgress, signal) =>
+          service.findStaleArtists(request.monthsQuiet, onProgress, signal)
+      );
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error('Stale artists error:', error);
+      return { success: false, error: (error as Error).message };
     }
+  }
+);
 
-    const result = await spotifyService.scanRecentReleases(
-      request.daysBack,
-      request.maxArtists,
-      (progress: ProgressUpdate) => {
-        mainWindow?.webContents.send(IPC_CHANNELS.SCAN_RELEASES_PROGRESS, progress);
+ipcMain.handle(IPC_CHANNELS.FOLLOW_HISTORY, async () => {
+  try {
+    if (!followHistoryService) {
+      throw new Error('Follow history is not available');
+    }
+
+    return { success: true, data: { entries: followHistoryService.list() } };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle(
+  IPC_CHANNELS.FOLLOW_HISTORY_UNDO,
+  async (_event: IpcMainInvokeEvent, request: UndoFollowHistoryRequest) => {
+    const entry = followHistoryService?.get(request.entryId);
+    if (!followHistoryService || !entry) {
+      return { success: false, error: 'History entry not found' };
+    }
+
+    // Undoing a follow is an unfollow and vice versa, so it runs as that operation's job and
+    // queues behind a bulk change running in another tab. The History tab finds the job by
+    // its "Undo" label to cancel just the undo.
+    const undoAction: FollowHistoryAction = entry.action === 'follow' ? 'unfollow' : 'follow';
+    const operation: CancellableOperation =
+      undoAction === 'unfollow' ? 'unfollow-artists' : 'follow-artists';
+    try {
+      const pendingIds = entry.artists
+        .map((artist) => artist.id)
+        .filter((artistId) => !entry.revertedArtistIds.includes(artistId));
+      const artistIds = request.artistIds
+        ? pendingIds.filter((artistId) => request.artistIds?.includes(artistId))
+        : pendingIds;
+      if (artistIds.length === 0) {
+        throw new Error('These changes have already been undone');
       }
+
+      const result = await runAppJob<FollowArtistsResponse | UnfollowArtistsResponse>(
+        operation,
+        `Undo ${artistIds.length} artists`,
+        (service, onProgress, signal) =>
+          undoAction === 'unfollow'
+            ? service.unfollowArtistsBulk(artistIds, onProgress, signal)
+            : service.followArtistsBulk(artistIds, onProgress, signal)
+      );
+
+      const revertedIds = getChangedArtistIds(artistIds, result);
+      const artistNames = Object.fromEntries(entry.artists.map((artist) => [artist.id, artist.name]));
+      recordFollowHistory(undoAction, revertedIds, {
+        source: entry.source,
+        artistNames,
+        undoOf: entry.id,
+      });
+
+      return {
+        success: true,
+        data: {
+          entry: followHistoryService.markReverted(entry.id, revertedIds),
+          revertedCount: revertedIds.length,
+          failedArtists: result.failedArtists,
+          failureReasons: result.failureReasons,
+          skippedArtists: result.skippedArtists,
+          cancelled: result.cancelled,
+        },
+      };
+    } catch (error) {
+      console.error('Undo follow history error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+);
+
+ipcMain.handle(IPC_CHANNELS.SCAN_RELEASES, async (_event: IpcMainInvokeEvent, request: ScanReleasesRequest) => {
+  try {
+    const result = await runAppJob(
+      'scan-releases',
+      `Last ${request.daysBack} days`,
+      (service, onProgress, signal) =>
+        service.scanRecentReleases(
+          request.daysBack,
+          request.maxArtists,
+          onProgress,
+          signal,
+          request.extraMarkets,
+          request.filters,
+          request.includeGroups,
+          (batch: ScanReleasesBatch) => {
+            mainWindow?.webContents.send(IPC_CHANNELS.SCAN_RELEASES_BATCH, batch);
+          }
+        )
     );
 
     return { success: true, data: result };
@@ -348,19 +909,37 @@ ipcMain.handle(IPC_CHANNELS.SCAN_RELEASES, async (_event: IpcMainInvokeEvent, re
   }
 });
 
-ipcMain.handle(IPC_CHANNELS.CREATE_PLAYLIST, async (_event: IpcMainInvokeEvent, request: CreatePlaylistRequest) => {
+ipcMain.handle(IPC_CHANNELS.RELEASE_TRACKS, async (_event: IpcMainInvokeEvent, request: GetReleaseTracksRequest) => {
   try {
-    if (!spotifyService) {
-      throw new Error('Not authenticated');
-    }
+    const result = await runAppJob(
+      'release-tracks',
+      `${request.releaseIds.length} releases`,
+      (service, onProgress, signal) => service.getReleaseTracks(request.releaseIds, onProgress, signal)
+    );
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error('Release tracks error:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
 
-    const result = await spotifyService.createPlaylistFromReleases(
+ipcMain.handle(IPC_CHANNELS.CREATE_PLAYLIST, async (_event: IpcMainInvokeEvent, request: CreatePlaylistRequest) => {
+  try {
+    const result = await runAppJob(
+      'create-playlist',
       request.playlistName,
-      request.releases,
-      request.isPublic,
-      (progress: ProgressUpdate) => {
-        mainWindow?.webContents.send(IPC_CHANNELS.CREATE_PLAYLIST_PROGRESS, progress);
-      }
+      (service, onProgress, signal) =>
+        service.createPlaylistFromReleases(
+          request.playlistName,
+          request.releases,
+          request.isPublic,
+          onProgress,
+          signal,
+          request.target,
+          request.filters,
+          request.trackIds
+        )
     );
 
     return { success: true, data: result };
@@ -369,6 +948,144 @@ ipcMain.handle(IPC_CHANNELS.CREATE_PLAYLIST, async (_event: IpcMainInvokeEvent,
     return { success: false, error: (error as Error).message };
   }
 });
+
+ipcMain.handle(
+  IPC_CHANNELS.CANCEL_OPERATION,
+  async (_event: IpcMainInvokeEvent, request: CancelOperationRequest) => {
+    // Only the window's own runs; scheduled scans and API jobs are cancelled by job ID
+    return { success: true, data: { cancelled: jobManager.cancelType(request.operation, 'app') } };
+  }
+);
+
+ipcMain.handle(IPC_CHANNELS.JOBS_LIST, async () => {
+  return { success: true, data: jobManager.list() };
+});
+
+ipcMain.handle(IPC_CHANNELS.JOBS_GET, async (_event: IpcMainInvokeEvent, request: JobRequest) => {
+  const job = jobManager.get(request.jobId);
+  if (!job) {
+    return { success: false, error: 'Job not found' };
+  }
+  return { success: true, data: job };
+});
+
+ipcMain.handle(IPC_CHANNELS.JOBS_CANCEL, async (_event: IpcMainInvokeEvent, request: JobRequest) => {
+  return { success: true, data: { cancelled: jobManager.cancel(request.jobId) } };
+});
+
+ipcMain.handle(
+  IPC_CHANNELS.USER_PLAYLISTS,
+  async (_event: IpcMainInvokeEvent, request: GetUserPlaylistsRequest = {}) => {
+    try {
+      if (!spotifyService) {
+        throw new Error('Not authenticated');
+      }
+
+      const playlists = await spotifyService.getUserPlaylists(Boolean(request.ownedOnly));
+      return { success: true, data: playlists };
+    } catch (error) {
+      console.error('List playlists error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+);
+
+async function buildSettingsResponse(service: SettingsService): Promise<SettingsResponse> {
+  let accountMarket: string | null = null;
+  if (spotifyService) {
+    try {
+      accountMarket = await spotifyService.getAccountMarket();
+    } catch (error) {
+      console.error('Failed to read account market:', error);
+    }
+  }
+
+  return {
+    settings: service.get(),
+    accountMarket,
+    automationApi: automationApiServer?.getStatus() ?? { url: null, error: null },
+  };
+}
+
+ipcMain.handle(IPC_CHANNELS.SETTINGS_GET, async () => {
+  try {
+    if (!settingsService) {
+      throw new Error('Settings are not available');
+    }
+
+    return { success: true, data: await buildSettingsResponse(settingsService) };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle(
+  IPC_CHANNELS.SETTINGS_UPDATE,
+  async (_event: IpcMainInvokeEvent, request: UpdateSettingsRequest) => {
+    try {
+      if (!settingsService) {
+        throw new Error('Settings are not available');
+      }
+
+      settingsService.update(request);
+      if (request.scanSchedule) {
+        scanScheduleService?.reschedule();
+        updateTray();
+      }
+      if (request.automationApi) {
+        await applyAutomationApiSettings();
+      }
+      return { success: true, data: await buildSettingsResponse(settingsService) };
+    } catch (error) {
+      console.error('Update settings error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+);
+
+ipcMain.handle(IPC_CHANNELS.SCHEDULER_STATS, async () => {
+  try {
+    if (!spotifyService) {
+      throw new Error('Not authenticated');
+    }
+
+    return { success: true, data: spotifyService.getSchedulerStats() };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle(IPC_CHANNELS.SCHEDULE_STATUS, async () => {
+  try {
+    if (!scanScheduleService) {
+      throw new Error('Scheduled scans are not available');
+    }
+
+    return { success: true, data: scanScheduleService.getStatus() };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle(IPC_CHANNELS.SCHEDULE_RUN_NOW, async () => {
+  try {
+    if (!scanScheduleService) {
+      throw new Error('Scheduled scans are not available');
+    }
+
+    const run = await scanScheduleService.runNow();
+    if (!run) {
+      throw new Error('A release scan is already running');
+    }
+    return { success: true, data: scanScheduleService.getStatus() };
+  } catch (error) {
+    console.error('Scheduled scan error:', error);
+    return { success: false, error: (error as Error).message };
+  } finally {
+    updateTray();
+  }
+});
+
 ipcMain.handle(IPC_CHANNELS.UPDATES_CHECK, async (_event, options: UpdateCheckOptions = {}) => {
   checkForUpdates(!options.silent);
 });
@@ -8,22 +8,56 @@ const IPC_CHANNELS = {
   AUTH_ERROR: 'auth:error',
   AUTH_CHECK: 'auth:check',
   AUTH_LOGOUT: 'auth:logout',
+  AUTH_DEMO: 'auth:demo',
   // Playlist Artist Follower
   ANALYZE_PLAYLIST: 'playlist:analyze',
   ANALYZE_PLAYLIST_PROGRESS: 'playlist:analyze:progress',
   ANALYZE_PLAYLIST_COMPLETE: 'playlist:analyze:complete',
+  ANALYZE_PLAYLISTS: 'playlist:analyze-batch',
   FOLLOW_ARTISTS: 'playlist:follow',
   FOLLOW_ARTISTS_PROGRESS: 'playlist:follow:progress',
   FOLLOW_ARTISTS_COMPLETE: 'playlist:follow:complete',
   RELATED_ARTISTS: 'artists:related',
+  RELATED_ARTISTS_PROGRESS: 'artists:related:progress',
+  // Followed Artists
+  FOLLOWED_ARTISTS: 'artists:followed',
+  LAST_RELEASE_DATES: 'artists:last-release-dates',
+  LAST_RELEASE_DATES_PROGRESS: 'artists:last-release-dates:progress',
+  UNFOLLOW_ARTISTS: 'artists:unfollow',
+  UNFOLLOW_ARTISTS_PROGRESS: 'artists:unfollow:progress',
+  STALE_ARTISTS: 'artists:stale',
+  STALE_ARTISTS_PROGRESS: 'artists:stale:progress',
+  // Follow History
+  FOLLOW_HISTORY: 'history:list',
+  FOLLOW_HISTORY_UNDO: 'history:undo',
   // New Releases
   SCAN_RELEASES: 'releases:scan',
   SCAN_RELEASES_PROGRESS: 'releases:scan:progress',
   SCAN_RELEASES_COMPLETE: 'releases:scan:complete',
+  SCAN_RELEASES_BATCH: 'releases:scan:batch',
+  RELEASE_TRACKS: 'releases:tracks',
+  RELEASE_TRACKS_PROGRESS: 'releases:tracks:progress',
   // Playlist creation
   CREATE_PLAYLIST: 'releases:create-playlist',
   CREATE_PLAYLIST_PROGRESS: 'releases:create-playlist:progress',
   CREATE_PLAYLIST_COMPLETE: 'releases:create-playlist:complete',
+  // Cancellation
+  CANCEL_OPERATION: 'operation:cancel',
+  // Jobs
+  JOBS_LIST: 'jobs:list',
+  JOBS_GET: 'jobs:get',
+  JOBS_CANCEL: 'jobs:cancel',
+  JOBS_UPDATED: 'jobs:updated',
+  // Library
+  USER_PLAYLISTS: 'playlists:list',
+  // Settings
+  SETTINGS_GET: 'settings:get',
+  SETTINGS_UPDATE: 'settings:update',
+  // Scheduled scans
+  SCHEDULE_STATUS: 'schedule:status',
+  SCHEDULE_RUN_NOW: 'schedule:run-now',
+  // Diagnostics
+  SCHEDULER_STATS: 'scheduler:stats',
   // Updates
   UPDATES_CHECK: 'updates:check',
   UPDATES_AVAILABLE: 'updates:available',
@@ -36,14 +70,40 @@ const IPC_CHANNELS = {
 import type {
   AnalyzePlaylistRequest,
   AnalyzePlaylistResponse,
+  AnalyzePlaylistsRequest,
+  AnalyzePlaylistsResponse,
   FollowArtistsRequest,
   FollowArtistsResponse,
+  FindStaleArtistsRequest,
+  FindStaleArtistsResponse,
+  GetFollowedArtistsRequest,
+  GetFollowedArtistsResponse,
+  GetFollowHistoryResponse,
+  GetLastReleaseDatesRequest,
+  GetLastReleaseDatesResponse,
   GetRelatedArtistsRequest,
   GetRelatedArtistsResponse,
+  GetReleaseTracksRequest,
+  GetReleaseTracksResponse,
+  GetUserPlaylistsRequest,
+  JobInfo,
+  JobRequest,
   ScanReleasesRequest,
   ScanReleasesResponse,
+  ScanReleasesBatch,
   CreatePlaylistRequest,
   CreatePlaylistResponse,
+  CancelOperationRequest,
+  CancelOperationResponse,
+  RequestSchedulerStats,
+  ScanScheduleStatus,
+  SpotifyPlaylist,
+  UnfollowArtistsRequest,
+  UnfollowArtistsResponse,
+  UndoFollowHistoryRequest,
+  UndoFollowHistoryResponse,
+  SettingsResponse,
+  UpdateSettingsRequest,
   ProgressUpdate,
   UpdateInfoPayload,
   UpdateErrorPayload,
@@ -67,10 +127,13 @@ contextBridge.exposeInMainWorld('electronAPI', {
   startAuth: () => ipcRenderer.invoke(IPC_CHANNELS.AUTH_START),
   checkAuth: () => ipcRenderer.invoke(IPC_CHANNELS.AUTH_CHECK),
   logout: () => ipcRenderer.invoke(IPC_CHANNELS.AUTH_LOGOUT),
+  startDemo: () => ipcRenderer.invoke(IPC_CHANNELS.AUTH_DEMO),
 
   // Playlist Analyzer
   analyzePlaylist: (request: AnalyzePlaylistRequest): InvokeResult<AnalyzePlaylistResponse> =>
     ipcRenderer.invoke(IPC_CHANNELS.ANALYZE_PLAYLIST, request),
+  analyzePlaylists: (request: AnalyzePlaylistsRequest): InvokeResult<AnalyzePlaylistsResponse> =>
+    ipcRenderer.invoke(IPC_CHANNELS.ANALYZE_PLAYLISTS, request),
   onAnalyzeProgress: (callback: (progress: ProgressUpdate) => void): Unsubscribe =>
     subscribe(IPC_CHANNELS.ANALYZE_PLAYLIST_PROGRESS, callback),
 
@@ -81,12 +144,42 @@ contextBridge.exposeInMainWorld('electronAPI', {
     subscribe(IPC_CHANNELS.FOLLOW_ARTISTS_PROGRESS, callback),
   getRelatedArtists: (request: GetRelatedArtistsRequest): InvokeResult<GetRelatedArtistsResponse> =>
     ipcRenderer.invoke(IPC_CHANNELS.RELATED_ARTISTS, request),
+  onRelatedArtistsProgress: (callback: (progress: ProgressUpdate) => void): Unsubscribe =>
+    subscribe(IPC_CHANNELS.RELATED_ARTISTS_PROGRESS, callback),
+
+  // Followed Artists
+  getFollowedArtists: (request?: GetFollowedArtistsRequest): InvokeResult<GetFollowedArtistsResponse> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FOLLOWED_ARTISTS, request),
+  getLastReleaseDates: (request: GetLastReleaseDatesRequest): InvokeResult<GetLastReleaseDatesResponse> =>
+    ipcRenderer.invoke(IPC_CHANNELS.LAST_RELEASE_DATES, request),
+  onLastReleaseDatesProgress: (callback: (progress: ProgressUpdate) => void): Unsubscribe =>
+    subscribe(IPC_CHANNELS.LAST_RELEASE_DATES_PROGRESS, callback),
+  unfollowArtists: (request: UnfollowArtistsRequest): InvokeResult<UnfollowArtistsResponse> =>
+    ipcRenderer.invoke(IPC_CHANNELS.UNFOLLOW_ARTISTS, request),
+  onUnfollowProgress: (callback: (progress: ProgressUpdate) => void): Unsubscribe =>
+    subscribe(IPC_CHANNELS.UNFOLLOW_ARTISTS_PROGRESS, callback),
+  findStaleArtists: (request: FindStaleArtistsRequest): InvokeResult<FindStaleArtistsResponse> =>
+    ipcRenderer.invoke(IPC_CHANNELS.STALE_ARTISTS, request),
+  onStaleArtistsProgress: (callback: (progress: ProgressUpdate) => void): Unsubscribe =>
+    subscribe(IPC_CHANNELS.STALE_ARTISTS_PROGRESS, callback),
+
+  // Follow History
+  getFollowHistory: (): InvokeResult<GetFollowHistoryResponse> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FOLLOW_HISTORY),
+  undoFollowHistory: (request: UndoFollowHistoryRequest): InvokeResult<UndoFollowHistoryResponse> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FOLLOW_HISTORY_UNDO, request),
 
   // Scan Releases
   scanReleases: (request: ScanReleasesRequest): InvokeResult<ScanReleasesResponse> =>
     ipcRenderer.invoke(IPC_CHANNELS.SCAN_RELEASES, request),
   onScanProgress: (callback: (progress: ProgressUpdate) => void): Unsubscribe =>
     subscribe(IPC_CHANNELS.SCAN_RELEASES_PROGRESS, callback),
+  onScanBatch: (callback: (batch: ScanReleasesBatch) => void): Unsubscribe =>
+    subscribe(IPC_CHANNELS.SCAN_RELEASES_BATCH, callback),
+  getReleaseTracks: (request: GetReleaseTracksRequest): InvokeResult<GetReleaseTracksResponse> =>
+    ipcRenderer.invoke(IPC_CHANNELS.RELEASE_TRACKS, request),
+  onReleaseTracksProgress: (callback: (progress: ProgressUpdate) => void): Unsubscribe =>
+    subscribe(IPC_CHANNELS.RELEASE_TRACKS_PROGRESS, callback),
 
   // Playlist creation
   createPlaylist: (request: CreatePlaylistRequest): InvokeResult<CreatePlaylistResponse> =>
@@ -94,6 +187,38 @@ contextBridge.exposeInMainWorld('electronAPI', {
   onCreatePlaylistProgress: (callback: (progress: ProgressUpdate) => void): Unsubscribe =>
     subscribe(IPC_CHANNELS.CREATE_PLAYLIST_PROGRESS, callback),
 
+  // Cancellation
+  cancelOperation: (request: CancelOperationRequest): InvokeResult<CancelOperationResponse> =>
+    ipcRenderer.invoke(IPC_CHANNELS.CANCEL_OPERATION, request),
+
+  // Jobs
+  listJobs: (): InvokeResult<JobInfo[]> => ipcRenderer.invoke(IPC_CHANNELS.JOBS_LIST),
+  getJob: (request: JobRequest): InvokeResult<JobInfo> =>
+    ipcRenderer.invoke(IPC_CHANNELS.JOBS_GET, request),
+  cancelJob: (request: JobRequest): InvokeResult<CancelOperationResponse> =>
+    ipcRenderer.invoke(IPC_CHANNELS.JOBS_CANCEL, request),
+  onJobUpdated: (callback: (job: JobInfo) => void): Unsubscribe =>
+    subscribe(IPC_CHANNELS.JOBS_UPDATED, callback),
+
+  // Library
+  getUserPlaylists: (request?: GetUserPlaylistsRequest): InvokeResult<SpotifyPlaylist[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.USER_PLAYLISTS, request),
+
+  // Settings
+  getSettings: (): InvokeResult<SettingsResponse> => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_GET),
+  updateSettings: (request: UpdateSettingsRequest): InvokeResult<SettingsResponse> =>
+    ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_UPDATE, request),
+
+  // Scheduled scans
+  getScheduleStatus: (): InvokeResult<ScanScheduleStatus> =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_STATUS),
+  runScheduledScanNow: (): InvokeResult<ScanScheduleStatus> =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_RUN_NOW),
+
+  // Diagnostics
+  getSchedulerStats: (): InvokeResult<RequestSchedulerStats> =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULER_STATS),
+
   // Updates
   checkForUpdates: (options?: UpdateCheckOptions): UpdateCheckResult =>
     ipcRenderer.invoke(IPC_CHANNELS.UPDATES_CHECK, options),
@@ -116,19 +241,51 @@ declare global {
   interface Window {
     electronAPI: {
       startAuth: () => Promise<{ success: boolean; error?: string }>;
-      checkAuth: () => Promise<{ authenticated: boolean; error?: string }>;
+      checkAuth: () => Promise<{ authenticated: boolean; demo?: boolean; error?: string }>;
       logout: () => Promise<{ success: boolean }>;
+      startDemo: () => Promise<{ success: boolean; error?: string }>;
       analyzePlaylist: (request: AnalyzePlaylistRequest) => InvokeResult<AnalyzePlaylistResponse>;
+      analyzePlaylists: (request: AnalyzePlaylistsRequest) => InvokeResult<AnalyzePlaylistsResponse>;
       onAnalyzeProgress: (callback: (progress: ProgressUpdate) => void) => Unsubscribe;
       followArtists: (request: FollowArtistsRequest) => InvokeResult<FollowArtistsResponse>;
       onFollowProgress: (callback: (progress: ProgressUpdate) => void) => Unsubscribe;
       getRelatedArtists: (
         request: GetRelatedArtistsRequest
       ) => InvokeResult<GetRelatedArtistsResponse>;
+      onRelatedArtistsProgress: (callback: (progress: ProgressUpdate) => void) => Unsubscribe;
+      getFollowedArtists: (
+        request?: GetFollowedArtistsRequest
+      ) => InvokeResult<GetFollowedArtistsResponse>;
+      getLastReleaseDates: (
+        request: GetLastReleaseDatesRequest
+      ) => InvokeResult<GetLastReleaseDatesResponse>;
+      onLastReleaseDatesProgress: (callback: (progress: ProgressUpdate) => void) => Unsubscribe;
+      unfollowArtists: (request: UnfollowArtistsRequest) => InvokeResult<UnfollowArtistsResponse>;
+      onUnfollowProgress: (callback: (progress: ProgressUpdate) => void) => Unsubscribe;
+      findStaleArtists: (request: FindStaleArtistsRequest) => InvokeResult<FindStaleArtistsResponse>;
+      onStaleArtistsProgress: (callback: (progress: ProgressUpdate) => void) => Unsubscribe;
+      getFollowHistory: () => InvokeResult<GetFollowHistoryResponse>;
+      undoFollowHistory: (
+        request: UndoFollowHistoryRequest
+      ) => InvokeResult<UndoFollowHistoryResponse>;
       scanReleases: (request: ScanReleasesRequest) => InvokeResult<ScanReleasesResponse>;
       onScanProgress: (callback: (progress: ProgressUpdate) => void) => Unsubscribe;
+      onScanBatch: (callback: (batch: ScanReleasesBatch) => void) => Unsubscribe;
+      getReleaseTracks: (request: GetReleaseTracksRequest) => InvokeResult<GetReleaseTracksResponse>;
+      onReleaseTracksProgress: (callback: (progress: ProgressUpdate) => void) => Unsubscribe;
       createPlaylist: (request: CreatePlaylistRequest) => InvokeResult<CreatePlaylistResponse>;
       onCreatePlaylistProgress: (callback: (progress: ProgressUpdate) => void) => Unsubscribe;
+      cancelOperation: (request: CancelOperationRequest) => InvokeResult<CancelOperationResponse>;
+      listJobs: () => InvokeResult<JobInfo[]>;
+      getJob: (request: JobRequest) => InvokeResult<JobInfo>;
+      cancelJob: (request: JobRequest) => InvokeResult<CancelOperationResponse>;
+      onJobUpdated: (callback: (job: JobInfo) => void) => Unsubscribe;
+      getUserPlaylists: (request?: GetUserPlaylistsRequest) => InvokeResult<SpotifyPlaylist[]>;
+      getSettings: () => InvokeResult<SettingsResponse>;
+      updateSettings: (request: UpdateSettingsRequest) => InvokeResult<SettingsResponse>;
+      getScheduleStatus: () => InvokeResult<ScanScheduleStatus>;
+      runScheduledScanNow: () => InvokeResult<ScanScheduleStatus>;
+      getSchedulerStats: () => InvokeResult<RequestSchedulerStats>;
       checkForUpdates: (options?: UpdateCheckOptions) => UpdateCheckResult;
       onUpdateAvailable: (callback: (info: UpdateInfoPayload) => void) => Unsubscribe;
       onUpdateNotAvailable: (callback: () => void) => Unsubscribe;
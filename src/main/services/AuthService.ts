@@ -4,8 +4,13 @@ import { BrowserWindow } from 'electron';
 import * as http from 'http';
 import * as url from 'url';
 import type { AuthTokens, AppConfig } from '../../shared/types';
-import { SPOTIFY_ACCOUNTS_BASE_URL, SPOTIFY_SCOPES } from '../../shared/constants';
+import { SPOTIFY_SCOPES } from '../../shared/constants';
 import { getSecureSpotifyCredentials } from '../utils/secureCredentials';
+import {
+  getSpotifyAccountsBaseUrl,
+  setSpotifyEndpointOverrides,
+} from '../utils/spotifyEndpoints';
+import { FakeSpotifyServer, startFakeSpotifyServer } from '../demo/fakeSpotifyServer';
 
 interface StoreSchema {
   tokens: AuthTokens | null;
@@ -15,6 +20,7 @@ interface StoreSchema {
 export class AuthService {
   private store: ElectronStore<StoreSchema>;
   private config: AppConfig;
+  private demoServer: FakeSpotifyServer | null = null;
 
   constructor() {
     this.store = new ElectronStore<StoreSchema>({
@@ -147,7 +153,7 @@ export class AuthService {
       show_dialog: 'true',
     });
 
-    return `${SPOTIFY_ACCOUNTS_BASE_URL}/authorize?${params.toString()}`;
+    return `${getSpotifyAccountsBaseUrl()}/authorize?${params.toString()}`;
   }
 
   private async exchangeCodeForTokens(code: string): Promise<AuthTokens> {
@@ -162,7 +168,7 @@ export class AuthService {
     ).toString('base64');
 
     const response = await axios.post(
-      `${SPOTIFY_ACCOUNTS_BASE_URL}/api/token`,
+      `${getSpotifyAccountsBaseUrl()}/api/token`,
       params.toString(),
       {
         headers: {
@@ -192,7 +198,7 @@ export class AuthService {
     ).toString('base64');
 
     const response = await axios.post(
-      `${SPOTIFY_ACCOUNTS_BASE_URL}/api/token`,
+      `${getSpotifyAccountsBaseUrl()}/api/token`,
       params.toString(),
       {
         headers: {
@@ -211,7 +217,48 @@ export class AuthService {
     };
   }
 
+  /**
+   * Starts the bundled fake Spotify backend and points all Spotify traffic at it.
+   * Demo tokens are never written to the token store, so a restart returns to the login screen.
+   */
+  async startDemoSession(): Promise<AuthTokens> {
+    if (!this.demoServer) {
+      this.demoServer = await startFakeSpotifyServer({
+        rateLimitEvery: Number(process.env.FAKE_SPOTIFY_RATE_LIMIT_EVERY) || 0,
+        restrictRelatedArtists: process.env.FAKE_SPOTIFY_RESTRICT_RELATED === '1',
+      });
+    }
+
+    setSpotifyEndpointOverrides({
+      apiBaseUrl: this.demoServer.apiBaseUrl,
+      accountsBaseUrl: this.demoServer.accountsBaseUrl,
+    });
+
+    return {
+      access_token: 'demo-access-token',
+      refresh_token: 'demo-refresh-token',
+      expires_at: Date.now() + 60 * 60 * 1000,
+    };
+  }
+
+  async endDemoSession(): Promise<void> {
+    if (!this.demoServer) {
+      return;
+    }
+
+    setSpotifyEndpointOverrides({});
+    await this.demoServer.close();
+    this.demoServer = null;
+  }
+
+  isDemoMode(): boolean {
+    return this.demoServer !== null;
+  }
+
   storeTokens(tokens: AuthTokens): void {
+    if (this.isDemoMode()) {
+      return;
+    }
     this.store.set('tokens', tokens);
   }
 
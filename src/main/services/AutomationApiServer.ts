@@ -0,0 +1,506 @@
+import { timingSafeEqual } from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { JobManager } from './JobManager';
+import type { SpotifyService } from './SpotifyService';
+import type {
+  AppSettings,
+  AutomationApiStatus,
+  CancellableOperation,
+  FollowArtistsRequest,
+  FollowArtistsResponse,
+  FollowHistorySource,
+  JobInfo,
+  OptionalReleaseGroup,
+  PlaylistTarget,
+  ProgressUpdate,
+  ReleaseFilters,
+  ReleaseWithArtist,
+  ScanReleasesResponse,
+} from '../../shared/types';
+
+// Requests carrying a full scan result can be large, but nothing legitimate comes close
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const ALBUM_TYPES: ReleaseFilters['albumTypes'] = ['album', 'single', 'compilation'];
+const OPTIONAL_RELEASE_GROUPS: OptionalReleaseGroup[] = ['appears_on', 'compilation'];
+const PLAYLIST_TARGETS: PlaylistTarget[] = ['new', 'rolling'];
+const MARKET_CODE_PATTERN = /^[A-Z]{2}$/i;
+
+type RouteResult = { status: number; body?: unknown };
+
+type JobRunner = (
+  spotifyService: SpotifyService,
+  onProgress: (progress: ProgressUpdate) => void,
+  signal: AbortSignal
+) => Promise<unknown>;
+
+export interface AutomationApiHandlers {
+  // Restores the signed-in session if the window has not done so yet
+  getSpotifyService: () => SpotifyService | null;
+  getSettings: () => AppSettings | null;
+  onArtistsFollowed: (request: FollowArtistsRequest, result: FollowArtistsResponse) => void;
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const accepted = (body: unknown): RouteResult => ({ status: 202, body });
+
+function readBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Drain the rest unbuffered; dropping the socket mid-upload would lose the 413
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new HttpError(413, 'Request body is too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      if (!raw) {
+        resolve({});
+        return;
+      }
+
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new HttpError(400, 'Request body must be JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readOptionalStringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isStringArray(value)) {
+    throw new HttpError(400, `"${field}" must be a list of strings`);
+  }
+  return value;
+}
+
+function readOptionalMarkets(value: unknown): string[] | undefined {
+  const markets = readOptionalStringList(value, 'extraMarkets');
+  const invalid = markets?.find((market) => !MARKET_CODE_PATTERN.test(market));
+  if (invalid !== undefined) {
+    throw new HttpError(400, `Invalid market code "${invalid}" in "extraMarkets"`);
+  }
+  return markets;
+}
+
+function readOptionalIncludeGroups(value: unknown): OptionalReleaseGroup[] | undefined {
+  const groups = readOptionalStringList(value, 'includeGroups');
+  const unknown = groups?.find(
+    (group) => !OPTIONAL_RELEASE_GROUPS.includes(group as OptionalReleaseGroup)
+  );
+  if (unknown !== undefined) {
+    throw new HttpError(
+      400,
+      `Unknown group "${unknown}" in "includeGroups"; use ${OPTIONAL_RELEASE_GROUPS.join(' or ')}`
+    );
+  }
+  return groups as OptionalReleaseGroup[] | undefined;
+}
+
+function readTrackCount(value: unknown, field: string): number | null {
+  if (value === null) {
+    return null;
+  }
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    throw new HttpError(400, `"filters.${field}" must be null or a whole number of at least 1`);
+  }
+  return value as number;
+}
+
+// Filters must be complete, so a partial object cannot quietly disable the saved ones
+function readOptionalFilters(value: unknown): ReleaseFilters | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isObject(value)) {
+    throw new HttpError(400, '"filters" must be an object');
+  }
+
+  const albumTypes = readOptionalStringList(value.albumTypes, 'filters.albumTypes');
+  if (!albumTypes) {
+    throw new HttpError(400, '"filters.albumTypes" is required');
+  }
+  const unknownType = albumTypes.find(
+    (albumType) => !ALBUM_TYPES.includes(albumType as ReleaseFilters['albumTypes'][number])
+  );
+  if (unknownType !== undefined) {
+    throw new HttpError(400, `Unknown release type "${unknownType}" in "filters.albumTypes"`);
+  }
+  if (!isStringArray(value.includeKeywords) || !isStringArray(value.excludeKeywords)) {
+    throw new HttpError(
+      400,
+      '"filters.includeKeywords" and "filters.excludeKeywords" must be lists of strings'
+    );
+  }
+  if (typeof value.excludeExplicit !== 'boolean') {
+    throw new HttpError(400, '"filters.excludeExplicit" must be true or false');
+  }
+  const excludedArtists = value.excludedArtists;
+  if (
+    !Array.isArray(excludedArtists) ||
+    !excludedArtists.every(
+      (artist) =>
+        isObject(artist) && typeof artist.id === 'string' && typeof artist.name === 'string'
+    )
+  ) {
+    throw new HttpError(400, '"filters.excludedArtists" must be a list of { id, name } objects');
+  }
+
+  return {
+    albumTypes: albumTypes as ReleaseFilters['albumTypes'],
+    includeKeywords: value.includeKeywords,
+    excludeKeywords: value.excludeKeywords,
+    minTracks: readTrackCount(value.minTracks, 'minTracks'),
+    maxTracks: readTrackCount(value.maxTracks, 'maxTracks'),
+    excludeExplicit: value.excludeExplicit,
+    excludedArtists: excludedArtists as ReleaseFilters['excludedArtists'],
+  };
+}
+
+// Only the fields the playlist is built from are checked; the rest is passed through
+function isRelease(value: unknown): value is ReleaseWithArtist {
+  return (
+    isObject(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.album_type === 'string' &&
+    typeof value.release_date === 'string' &&
+    typeof value.release_date_precision === 'string' &&
+    typeof value.total_tracks === 'number' &&
+    Array.isArray(value.artists)
+  );
+}
+
+function readOptionalSource(value: unknown): FollowHistorySource | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (
+    !isObject(value) ||
+    typeof value.label !== 'string' ||
+    (value.url !== undefined && typeof value.url !== 'string')
+  ) {
+    throw new HttpError(400, '"source" must be an object with a "label" and an optional "url"');
+  }
+  return { label: value.label, url: value.url };
+}
+
+function readOptionalArtistNames(value: unknown): Record<string, string> | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isObject(value) || !Object.values(value).every((name) => typeof name === 'string')) {
+    throw new HttpError(400, '"artistNames" must map artist IDs to names');
+  }
+  return value as Record<string, string>;
+}
+
+/**
+ * Opt-in JSON API on 127.0.0.1 for home automation and scripts. Every request needs the
+ * token from the settings; long operations start a job that is polled under /v1/jobs.
+ */
+export class AutomationApiServer {
+  private jobManager: JobManager;
+  private handlers: AutomationApiHandlers;
+  private server: http.Server | null = null;
+  private port: number | null = null;
+  private token = '';
+  private lastError: string | null = null;
+
+  constructor(jobManager: JobManager, handlers: AutomationApiHandlers) {
+    this.jobManager = jobManager;
+    this.handlers = handlers;
+  }
+
+  /**
+   * Starts listening, or moves to a new port. A port that cannot be bound is reported
+   * through getStatus instead of thrown, so saving the settings still succeeds.
+   */
+  async start(port: number, token: string): Promise<void> {
+    this.token = token;
+    if (this.server && this.port === port) {
+      return;
+    }
+
+    await this.stop();
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res);
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => resolve());
+      });
+      this.server = server;
+      this.port = (server.address() as AddressInfo).port;
+      this.lastError = null;
+    } catch (error) {
+      console.error('[automation] Failed to start the API server:', error);
+      this.lastError = (error as Error).message;
+    }
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    this.port = null;
+    this.lastError = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  getStatus(): AutomationApiStatus {
+    return {
+      url: this.port !== null ? `http://127.0.0.1:${this.port}` : null,
+      error: this.lastError,
+    };
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const send = (result: RouteResult) => {
+      // Don't keep a connection open for a client that sends oversized bodies
+      const headers: http.OutgoingHttpHeaders = { 'Content-Type': 'application/json' };
+      if (result.status === 413) {
+        headers.Connection = 'close';
+      }
+      res.writeHead(result.status, headers);
+      res.end(JSON.stringify(result.body ?? {}));
+    };
+
+    try {
+      if (!this.isAuthorized(req.headers.authorization)) {
+        throw new HttpError(401, 'Missing or invalid API token');
+      }
+
+      const requestUrl = new URL(req.url ?? '/', 'http://127.0.0.1');
+      const segments = requestUrl.pathname.split('/').filter(Boolean);
+      if (segments[0] !== 'v1') {
+        throw new HttpError(404, 'Not found');
+      }
+
+      const method = req.method ?? 'GET';
+      const body = method === 'POST' ? await readBody(req) : {};
+      send(this.route(method, segments.slice(1), body as Record<string, unknown>));
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) {
+        console.error('[automation] Request failed:', error);
+      }
+      send({ status, body: { error: (error as Error).message } });
+    }
+  }
+
+  private isAuthorized(header: string | undefined): boolean {
+    if (!this.token || !header?.startsWith('Bearer ')) {
+      return false;
+    }
+
+    const given = Buffer.from(header.slice('Bearer '.length));
+    const expected = Buffer.from(this.token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  private route(method: string, segments: string[], body: Record<string, unknown>): RouteResult {
+    const [resource, id] = segments;
+
+    if (resource === 'status' && method === 'GET') {
+      return {
+        status: 200,
+        body: { authenticated: this.handlers.getSpotifyService() !== null },
+      };
+    }
+
+    if (resource === 'jobs') {
+      if (!id && method === 'GET') {
+        return { status: 200, body: { jobs: this.jobManager.list() } };
+      }
+      const job = id ? this.jobManager.get(id) : undefined;
+      if (!job) {
+        throw new HttpError(404, 'Job not found');
+      }
+      if (method === 'GET') {
+        return { status: 200, body: job };
+      }
+      if (method === 'DELETE') {
+        this.jobManager.cancel(job.id);
+        return { status: 200, body: this.jobManager.get(job.id) };
+      }
+    }
+
+    if (method !== 'POST' || id) {
+      throw new HttpError(404, 'Not found');
+    }
+
+    switch (resource) {
+      case 'analyze':
+        return accepted(this.startAnalyzeJob(body));
+      case 'follow':
+        return accepted(this.startFollowJob(body));
+      case 'scan':
+        return accepted(this.startScanJob(body));
+      case 'playlists':
+        return accepted(this.startCreatePlaylistJob(body));
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  }
+
+  private startAnalyzeJob(body: Record<string, unknown>): JobInfo {
+    const { sources } = body;
+    if (isStringArray(sources) && sources.length > 0) {
+      return this.startJob(
+        'analyze-playlist',
+        `${sources.length} sources`,
+        (spotifyService, onProgress, signal) =>
+          spotifyService.analyzeSources(sources, onProgress, signal)
+      );
+    }
+    const { source } = body;
+    if (typeof source === 'string' && source.trim()) {
+      return this.startJob('analyze-playlist', source, (spotifyService, onProgress, signal) =>
+        spotifyService.analyzeSource(source, onProgress, signal)
+      );
+    }
+    throw new HttpError(400, 'Provide "source" or a non-empty "sources" list');
+  }
+
+  private startFollowJob(body: Record<string, unknown>): JobInfo {
+    if (!isStringArray(body.artistIds) || body.artistIds.length === 0) {
+      throw new HttpError(400, 'Provide a non-empty "artistIds" list');
+    }
+
+    const request: FollowArtistsRequest = {
+      artistIds: body.artistIds,
+      artistNames: readOptionalArtistNames(body.artistNames),
+      source: readOptionalSource(body.source),
+    };
+    const label = `${request.artistIds.length} artists`;
+    return this.startJob('follow-artists', label, async (spotifyService, onProgress, signal) => {
+      const result = await spotifyService.followArtistsBulk(request.artistIds, onProgress, signal);
+      this.handlers.onArtistsFollowed(request, result);
+      return result;
+    });
+  }
+
+  private startScanJob(body: Record<string, unknown>): JobInfo {
+    const { daysBack, maxArtists } = body;
+    if (typeof daysBack !== 'number' || !Number.isInteger(daysBack) || daysBack < 1) {
+      throw new HttpError(400, '"daysBack" must be a whole number of at least 1');
+    }
+    if (
+      maxArtists !== undefined &&
+      (typeof maxArtists !== 'number' || !Number.isInteger(maxArtists) || maxArtists < 0)
+    ) {
+      throw new HttpError(400, '"maxArtists" must be a whole number; 0 checks every artist');
+    }
+    const extraMarkets = readOptionalMarkets(body.extraMarkets);
+    const filters = readOptionalFilters(body.filters);
+    const includeGroups = readOptionalIncludeGroups(body.includeGroups);
+
+    // Markets and filters default to the ones saved in the settings
+    const settings = this.handlers.getSettings();
+    const label = `Last ${daysBack} days`;
+    return this.startJob('scan-releases', label, (spotifyService, onProgress, signal) =>
+      spotifyService.scanRecentReleases(
+        daysBack,
+        maxArtists,
+        onProgress,
+        signal,
+        extraMarkets ?? settings?.extraScanMarkets,
+        filters ?? settings?.releaseFilters,
+        includeGroups
+      )
+    );
+  }
+
+  private startCreatePlaylistJob(body: Record<string, unknown>): JobInfo {
+    const { playlistName, scanJobId, isPublic, target } = body;
+    if (typeof playlistName !== 'string' || !playlistName.trim()) {
+      throw new HttpError(400, 'Provide a "playlistName"');
+    }
+    if (isPublic !== undefined && typeof isPublic !== 'boolean') {
+      throw new HttpError(400, '"isPublic" must be true or false');
+    }
+    if (target !== undefined && !PLAYLIST_TARGETS.includes(target as PlaylistTarget)) {
+      throw new HttpError(400, `"target" must be ${PLAYLIST_TARGETS.join(' or ')}`);
+    }
+    const filters = readOptionalFilters(body.filters);
+    const trackIds = readOptionalStringList(body.trackIds, 'trackIds');
+
+    // Releases can come from the request or from the result of a finished scan job
+    let releases: ReleaseWithArtist[];
+    if (scanJobId !== undefined) {
+      const scanJob = typeof scanJobId === 'string' ? this.jobManager.get(scanJobId) : undefined;
+      if (scanJob?.type !== 'scan-releases' || scanJob.status !== 'succeeded') {
+        throw new HttpError(400, '"scanJobId" must refer to a finished scan job');
+      }
+      releases = (scanJob.result as ScanReleasesResponse).releases;
+    } else if (Array.isArray(body.releases)) {
+      if (!body.releases.every(isRelease)) {
+        throw new HttpError(400, '"releases" must be releases as returned by a scan');
+      }
+      releases = body.releases;
+    } else {
+      throw new HttpError(400, 'Provide "releases" or a "scanJobId"');
+    }
+
+    const settings = this.handlers.getSettings();
+    return this.startJob('create-playlist', playlistName, (spotifyService, onProgress, signal) =>
+      spotifyService.createPlaylistFromReleases(
+        playlistName,
+        releases,
+        Boolean(isPublic),
+        onProgress,
+        signal,
+        target as PlaylistTarget | undefined,
+        filters ?? settings?.releaseFilters,
+        trackIds
+      )
+    );
+  }
+
+  private startJob(type: CancellableOperation, label: string, run: JobRunner): JobInfo {
+    const spotifyService = this.handlers.getSpotifyService();
+    if (!spotifyService) {
+      throw new HttpError(401, 'Not authenticated. Sign in through the app first.');
+    }
+
+    const { job, result } = this.jobManager.run(
+      type,
+      ({ signal, reportProgress }) => run(spotifyService, reportProgress, signal),
+      { origin: 'api', label }
+    );
+    // Failures are reported through the job status
+    result.catch((error) => console.error(`[automation] ${type} job failed:`, error));
+    return job;
+  }
+}
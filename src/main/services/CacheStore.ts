@@ -0,0 +1,74 @@
+import ElectronStore from 'electron-store';
+import type { ReleaseWithArtist, SpotifyArtist } from '../../shared/types';
+
+// Bump whenever the snapshot shape changes; older files are discarded on load
+export const CACHE_SCHEMA_VERSION = 7;
+
+export type ScannedAlbumGroup = 'album' | 'single' | 'appears_on' | 'compilation';
+
+export interface ArtistScanWatermark {
+  lastScannedAt: number;
+  // Oldest release date (ms) that knownReleases is complete for
+  coveredSince: number;
+  newestReleaseIds: Partial<Record<ScannedAlbumGroup, string>>;
+  knownReleases: ReleaseWithArtist[];
+}
+
+export interface PersistedCacheSnapshot {
+  savedAt: number;
+  artistDetails: Record<string, { artist: SpotifyArtist; timestamp: number }>;
+  albumTracks: Record<string, string[]>;
+  relatedArtists: Record<string, { artists: SpotifyArtist[]; timestamp: number }>;
+  followStatus: Record<string, { isFollowed: boolean; timestamp: number }>;
+  followedArtists: { timestamp: number; artists: SpotifyArtist[] } | null;
+  lastReleaseDates: Record<string, { releaseDate: string | null; timestamp: number }>;
+  // Artists seen on each analyzed source, keyed by `${sourceType}:${sourceId}`
+  sourceArtists: Record<string, { artistIds: string[]; timestamp: number }>;
+  // Keyed by `${artistId}:${market}`
+  scanWatermarks: Record<string, ArtistScanWatermark>;
+}
+
+interface CacheStoreSchema {
+  version: number;
+  lastAccountId: string | null;
+  accounts: Record<string, PersistedCacheSnapshot>;
+}
+
+/**
+ * On-disk cache for Spotify lookups, kept in the app's user data directory
+ * and partitioned by Spotify account ID.
+ */
+export class CacheStore {
+  private store: ElectronStore<CacheStoreSchema>;
+
+  constructor() {
+    this.store = new ElectronStore<CacheStoreSchema>({
+      name: 'spotify-cache',
+      defaults: {
+        version: CACHE_SCHEMA_VERSION,
+        lastAccountId: null,
+        accounts: {},
+      },
+    });
+
+    if (this.store.get('version') !== CACHE_SCHEMA_VERSION) {
+      console.log('[cache] Cache schema changed - discarding persisted cache');
+      this.store.clear();
+      this.store.set('version', CACHE_SCHEMA_VERSION);
+    }
+  }
+
+  getLastAccountId(): string | null {
+    return this.store.get('lastAccountId');
+  }
+
+  load(accountId: string): PersistedCacheSnapshot | null {
+    return this.store.get('accounts')[accountId] ?? null;
+  }
+
+  save(accountId: string, snapshot: PersistedCacheSnapshot): void {
+    const accounts = this.store.get('accounts');
+    this.store.set('accounts', { ...accounts, [accountId]: snapshot });
+    this.store.set('lastAccountId', accountId);
+  }
+}
@@ -0,0 +1,80 @@
+import { randomUUID } from 'crypto';
+import ElectronStore from 'electron-store';
+import type {
+  FollowHistoryAction,
+  FollowHistoryEntry,
+  FollowHistorySource,
+} from '../../shared/types';
+
+// Oldest entries are dropped beyond this, keeping the journal file small
+const MAX_HISTORY_ENTRIES = 500;
+
+interface RecordOptions {
+  source?: FollowHistorySource | null;
+  artistNames?: Record<string, string>;
+  undoOf?: string;
+}
+
+/**
+ * Journal of every follow and unfollow the app performed, so changes can be reviewed
+ * and undone later. Stored next to the settings file and kept across logouts.
+ */
+export class FollowHistoryService {
+  private store: ElectronStore<{ entries: FollowHistoryEntry[] }>;
+
+  constructor() {
+    this.store = new ElectronStore<{ entries: FollowHistoryEntry[] }>({
+      name: 'follow-history',
+      defaults: { entries: [] },
+    });
+  }
+
+  list(): FollowHistoryEntry[] {
+    return this.store.get('entries');
+  }
+
+  get(entryId: string): FollowHistoryEntry | undefined {
+    return this.list().find((entry) => entry.id === entryId);
+  }
+
+  /**
+   * Adds an entry for the artists that were actually changed. Nothing is recorded when
+   * the list is empty, e.g. when every chunk failed.
+   */
+  record(
+    action: FollowHistoryAction,
+    artistIds: string[],
+    options: RecordOptions = {}
+  ): FollowHistoryEntry | null {
+    if (artistIds.length === 0) {
+      return null;
+    }
+
+    const entry: FollowHistoryEntry = {
+      id: randomUUID(),
+      action,
+      timestamp: Date.now(),
+      source: options.source ?? null,
+      artists: artistIds.map((id) => ({ id, name: options.artistNames?.[id] || id })),
+      revertedArtistIds: [],
+    };
+    if (options.undoOf) {
+      entry.undoOf = options.undoOf;
+    }
+
+    this.store.set('entries', [entry, ...this.list()].slice(0, MAX_HISTORY_ENTRIES));
+    return entry;
+  }
+
+  markReverted(entryId: string, artistIds: string[]): FollowHistoryEntry {
+    const entries = this.list();
+    const entry = entries.find((candidate) => candidate.id === entryId);
+    if (!entry) {
+      throw new Error('History entry not found');
+    }
+
+    entry.revertedArtistIds = Array.from(new Set([...entry.revertedArtistIds, ...artistIds]));
+    this.store.set('entries', entries);
+    return entry;
+  }
+}
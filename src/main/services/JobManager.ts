@@ -0,0 +1,204 @@
+import { randomUUID } from 'crypto';
+import { isCancellationError, OperationCancelledError } from '../utils/cancellation';
+import type {
+  CancellableOperation,
+  JobInfo,
+  JobOrigin,
+  ProgressUpdate,
+} from '../../shared/types';
+
+// Jobs of different types run side by side up to this limit; the rest wait in order
+const MAX_CONCURRENT_JOBS = 4;
+// Finished jobs beyond this are forgotten, oldest first
+const MAX_FINISHED_JOBS = 50;
+
+export interface JobContext {
+  signal: AbortSignal;
+  reportProgress: (progress: ProgressUpdate) => void;
+}
+
+export interface RunJobOptions {
+  origin?: JobOrigin;
+  label?: string;
+}
+
+interface JobRecord {
+  info: JobInfo;
+  controller: AbortController;
+  start: () => void;
+  // Settles the caller's promise when the job is cancelled before it started
+  abandon: () => void;
+}
+
+const isActive = (job: JobInfo) => job.status === 'queued' || job.status === 'running';
+
+/**
+ * Runs long operations as jobs with an ID, status, progress and result, so they can be
+ * listed, polled and cancelled from the window and the automation API. Jobs of the same
+ * type run one at a time.
+ */
+export class JobManager {
+  private jobs = new Map<string, JobRecord>();
+  private onUpdate: (job: JobInfo) => void;
+
+  constructor(onUpdate: (job: JobInfo) => void = () => {}) {
+    this.onUpdate = onUpdate;
+  }
+
+  run<T>(
+    type: CancellableOperation,
+    task: (context: JobContext) => Promise<T>,
+    options: RunJobOptions = {}
+  ): { job: JobInfo; result: Promise<T> } {
+    const info: JobInfo = {
+      id: randomUUID(),
+      type,
+      origin: options.origin ?? 'app',
+      label: options.label ?? '',
+      status: 'queued',
+      progress: null,
+      error: null,
+      createdAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+    };
+    const controller = new AbortController();
+
+    let resolveResult: (value: T) => void = () => {};
+    let rejectResult: (error: unknown) => void = () => {};
+    const result = new Promise<T>((resolve, reject) => {
+      resolveResult = resolve;
+      rejectResult = reject;
+    });
+
+    this.jobs.set(info.id, {
+      info,
+      controller,
+      start: () => {
+        info.status = 'running';
+        info.startedAt = Date.now();
+        this.notify(info);
+
+        task({
+          signal: controller.signal,
+          reportProgress: (progress) => {
+            info.progress = progress;
+            this.notify(info);
+          },
+        })
+          .then((value) => {
+            info.result = value;
+            info.status = (value as { cancelled?: boolean } | null)?.cancelled
+              ? 'cancelled'
+              : 'succeeded';
+            this.finish(info);
+            resolveResult(value);
+          })
+          .catch((error) => {
+            info.status =
+              controller.signal.aborted || isCancellationError(error) ? 'cancelled' : 'failed';
+            info.error = (error as Error).message;
+            this.finish(info);
+            rejectResult(error);
+          });
+      },
+      abandon: () => rejectResult(new OperationCancelledError()),
+    });
+    this.notify(info);
+    this.startQueued();
+    return { job: this.summarize(info), result };
+  }
+
+  list(): JobInfo[] {
+    return Array.from(this.jobs.values())
+      .map((record) => this.summarize(record.info))
+      .reverse();
+  }
+
+  get(jobId: string): JobInfo | undefined {
+    const record = this.jobs.get(jobId);
+    return record ? { ...record.info } : undefined;
+  }
+
+  hasActive(type: CancellableOperation): boolean {
+    return Array.from(this.jobs.values()).some(
+      (record) => record.info.type === type && isActive(record.info)
+    );
+  }
+
+  /**
+   * Running jobs stop at their next cancellation check and usually finish with a partial
+   * result; queued jobs are dropped right away.
+   */
+  cancel(jobId: string): boolean {
+    const record = this.jobs.get(jobId);
+    if (!record || !isActive(record.info)) {
+      return false;
+    }
+
+    record.controller.abort();
+    if (record.info.status === 'queued') {
+      record.info.status = 'cancelled';
+      this.finish(record.info);
+      record.abandon();
+    }
+    return true;
+  }
+
+  cancelType(type: CancellableOperation, origin: JobOrigin): boolean {
+    let cancelled = false;
+    for (const record of this.jobs.values()) {
+      if (record.info.type === type && record.info.origin === origin) {
+        cancelled = this.cancel(record.info.id) || cancelled;
+      }
+    }
+    return cancelled;
+  }
+
+  cancelAll(): void {
+    for (const jobId of this.jobs.keys()) {
+      this.cancel(jobId);
+    }
+  }
+
+  private finish(info: JobInfo) {
+    info.finishedAt = Date.now();
+    this.notify(info);
+    this.pruneFinished();
+    this.startQueued();
+  }
+
+  private startQueued() {
+    const running = Array.from(this.jobs.values()).filter(
+      (record) => record.info.status === 'running'
+    );
+    const busyTypes = new Set(running.map((record) => record.info.type));
+    let available = MAX_CONCURRENT_JOBS - running.length;
+
+    for (const record of this.jobs.values()) {
+      if (available <= 0) break;
+      if (record.info.status !== 'queued' || busyTypes.has(record.info.type)) continue;
+
+      busyTypes.add(record.info.type);
+      available -= 1;
+      record.start();
+    }
+  }
+
+  private pruneFinished() {
+    const finished = Array.from(this.jobs.values()).filter((record) => !isActive(record.info));
+    for (const record of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.jobs.delete(record.info.id);
+    }
+  }
+
+  // Results can be large, so updates and listings leave them out
+  private summarize(info: JobInfo): JobInfo {
+    const { result: _result, ...summary } = info;
+    return summary;
+  }
+
+  private notify(info: JobInfo) {
+    this.onUpdate(this.summarize(info));
+  }
+}
@@ -0,0 +1,231 @@
+import type { RequestPriority, RequestSchedulerStats } from '../../shared/types';
+import {
+  SCHEDULER_BASE_RATE_PER_SECOND,
+  SCHEDULER_BUCKET_CAPACITY,
+  SCHEDULER_MIN_RATE_PER_SECOND,
+} from '../../shared/constants';
+import { OperationCancelledError } from '../utils/cancellation';
+
+// Groups of Spotify endpoints that are backed off independently after a 429
+export type EndpointClass =
+  | 'user'
+  | 'playlists'
+  | 'artists'
+  | 'artist-albums'
+  | 'related-artists'
+  | 'albums'
+  | 'tracks'
+  | 'follow';
+
+const RATE_DECREASE_FACTOR = 0.5;
+const RATE_RECOVERY_STEP = 0.1; // requests/second regained per successful call
+const OBSERVED_RATE_WINDOW_MS = 10000;
+
+export class RateLimitExceededError extends Error {
+  retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(
+      `Spotify rate limit exceeded. Please try again in approximately ${Math.ceil(
+        retryAfterSeconds / 60
+      )} minutes.`
+    );
+    this.name = 'RateLimitExceededError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+interface PendingRequest {
+  endpoint: EndpointClass;
+  resolve: () => void;
+  cleanup: () => void;
+}
+
+/**
+ * Token-bucket scheduler shared by every Spotify request of a session.
+ * Interactive requests always jump ahead of queued bulk work, and a 429 only
+ * pauses the endpoint class that triggered it while lowering the overall rate.
+ */
+export class RequestScheduler {
+  private tokens = SCHEDULER_BUCKET_CAPACITY;
+
+  private lastRefillAt = Date.now();
+
+  private ratePerSecond = SCHEDULER_BASE_RATE_PER_SECOND;
+
+  private queues: Record<RequestPriority, PendingRequest[]> = {
+    interactive: [],
+    bulk: [],
+  };
+
+  private blockedUntil = new Map<EndpointClass, number>();
+
+  private dispatchTimestamps: number[] = [];
+
+  private totalRequests = 0;
+
+  private rateLimitHits = 0;
+
+  private pumpTimer: NodeJS.Timeout | null = null;
+
+  acquire(
+    endpoint: EndpointClass,
+    priority: RequestPriority,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new OperationCancelledError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const queue = this.queues[priority];
+        const index = queue.indexOf(request);
+        if (index !== -1) {
+          queue.splice(index, 1);
+        }
+        reject(new OperationCancelledError());
+      };
+
+      const request: PendingRequest = {
+        endpoint,
+        resolve,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queues[priority].push(request);
+      this.pump();
+    });
+  }
+
+  reportSuccess(): void {
+    this.ratePerSecond = Math.min(
+      SCHEDULER_BASE_RATE_PER_SECOND,
+      this.ratePerSecond + RATE_RECOVERY_STEP
+    );
+  }
+
+  reportRateLimited(endpoint: EndpointClass, retryAfterSeconds: number): void {
+    this.rateLimitHits += 1;
+    this.ratePerSecond = Math.max(
+      SCHEDULER_MIN_RATE_PER_SECOND,
+      this.ratePerSecond * RATE_DECREASE_FACTOR
+    );
+
+    const until = Date.now() + (retryAfterSeconds + 1) * 1000;
+    this.blockedUntil.set(endpoint, Math.max(this.blockedUntil.get(endpoint) ?? 0, until));
+    // Drain the burst allowance so other classes also ease off
+    this.tokens = Math.min(this.tokens, 1);
+  }
+
+  getStats(): RequestSchedulerStats {
+    const now = Date.now();
+    this.pruneDispatchTimestamps(now);
+
+    const backoffEndpoints = Array.from(this.blockedUntil.entries())
+      .filter(([, until]) => until > now)
+      .map(([endpoint, until]) => ({ endpoint, retryInMs: until - now }));
+
+    return {
+      queueDepth: {
+        interactive: this.queues.interactive.length,
+        bulk: this.queues.bulk.length,
+      },
+      totalRequests: this.totalRequests,
+      rateLimitHits: this.rateLimitHits,
+      allowedRatePerSecond: Math.round(this.ratePerSecond * 10) / 10,
+      observedRatePerSecond:
+        Math.round((this.dispatchTimestamps.length / (OBSERVED_RATE_WINDOW_MS / 1000)) * 10) / 10,
+      backoffEndpoints,
+    };
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = (now - this.lastRefillAt) / 1000;
+    this.tokens = Math.min(
+      SCHEDULER_BUCKET_CAPACITY,
+      this.tokens + elapsedSeconds * this.ratePerSecond
+    );
+    this.lastRefillAt = now;
+  }
+
+  private pruneDispatchTimestamps(now: number): void {
+    while (
+      this.dispatchTimestamps.length &&
+      now - this.dispatchTimestamps[0] > OBSERVED_RATE_WINDOW_MS
+    ) {
+      this.dispatchTimestamps.shift();
+    }
+  }
+
+  private isBlocked(endpoint: EndpointClass, now: number): boolean {
+    const until = this.blockedUntil.get(endpoint);
+    if (until === undefined) {
+      return false;
+    }
+    if (until <= now) {
+      this.blockedUntil.delete(endpoint);
+      return false;
+    }
+    return true;
+  }
+
+  private takeNextRunnable(now: number): PendingRequest | null {
+    for (const priority of ['interactive', 'bulk'] as const) {
+      const queue = this.queues[priority];
+      const index = queue.findIndex((request) => !this.isBlocked(request.endpoint, now));
+      if (index !== -1) {
+        return queue.splice(index, 1)[0];
+      }
+    }
+    return null;
+  }
+
+  private pump(): void {
+    const now = Date.now();
+    this.refill(now);
+
+    while (this.tokens >= 1) {
+      const request = this.takeNextRunnable(now);
+      if (!request) {
+        break;
+      }
+
+      this.tokens -= 1;
+      this.totalRequests += 1;
+      this.dispatchTimestamps.push(now);
+      request.cleanup();
+      request.resolve();
+    }
+    this.pruneDispatchTimestamps(now);
+
+    const pending = [...this.queues.interactive, ...this.queues.bulk];
+    if (!pending.length) {
+      return;
+    }
+
+    const waits: number[] = [];
+    if (this.tokens < 1) {
+      waits.push(((1 - this.tokens) / this.ratePerSecond) * 1000);
+    }
+    for (const request of pending) {
+      const until = this.blockedUntil.get(request.endpoint);
+      if (until !== undefined && until > now) {
+        waits.push(until - now);
+      }
+    }
+
+    this.schedulePump(waits.length ? Math.min(...waits) : 0);
+  }
+
+  private schedulePump(delayMs: number): void {
+    if (this.pumpTimer) {
+      clearTimeout(this.pumpTimer);
+    }
+    this.pumpTimer = setTimeout(() => {
+      this.pumpTimer = null;
+      this.pump();
+    }, Math.max(0, Math.ceil(delayMs)));
+  }
+}
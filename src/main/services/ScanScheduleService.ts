@@ -0,0 +1,120 @@
+import ElectronStore from 'electron-store';
+import type {
+  ScanScheduleSettings,
+  ScanScheduleStatus,
+  ScheduledScanRun,
+} from '../../shared/types';
+
+// How often the schedule is checked; also bounds how late a run starts after waking from sleep
+const CHECK_INTERVAL_MS = 1000 * 60;
+
+/**
+ * Next time the schedule fires strictly after `after`, in local time.
+ */
+export function getNextScheduledRun(schedule: ScanScheduleSettings, after: number): number {
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+  const candidate = new Date(after);
+  candidate.setHours(hours, minutes, 0, 0);
+
+  while (
+    candidate.getTime() <= after ||
+    (schedule.frequency === 'weekly' && candidate.getDay() !== schedule.dayOfWeek)
+  ) {
+    candidate.setDate(candidate.getDate() + 1);
+    candidate.setHours(hours, minutes, 0, 0);
+  }
+
+  return candidate.getTime();
+}
+
+/**
+ * Runs release scans on the schedule from the settings and remembers the last run.
+ * A run missed while the app was closed starts once on the next launch.
+ */
+export class ScanScheduleService {
+  private store: ElectronStore<{ lastRun: ScheduledScanRun | null }>;
+  private getSchedule: () => ScanScheduleSettings;
+  // Resolves to null when the scan cannot start yet, e.g. while a manual scan is running
+  private runScan: () => Promise<ScheduledScanRun | null>;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  // Runs are due at the first scheduled time after this
+  private anchor: number;
+
+  constructor(
+    getSchedule: () => ScanScheduleSettings,
+    runScan: () => Promise<ScheduledScanRun | null>
+  ) {
+    this.getSchedule = getSchedule;
+    this.runScan = runScan;
+    this.store = new ElectronStore<{ lastRun: ScheduledScanRun | null }>({
+      name: 'scan-schedule',
+      defaults: { lastRun: null },
+    });
+    this.anchor = this.store.get('lastRun')?.startedAt ?? Date.now();
+  }
+
+  start(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => this.runIfDue(), CHECK_INTERVAL_MS);
+      this.runIfDue();
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Called after the schedule was edited, so a changed time does not count as missed.
+   */
+  reschedule(): void {
+    this.anchor = Date.now();
+  }
+
+  getStatus(): ScanScheduleStatus {
+    const schedule = this.getSchedule();
+    return {
+      nextRunAt: schedule.enabled ? getNextScheduledRun(schedule, this.anchor) : null,
+      lastRun: this.store.get('lastRun'),
+      running: this.running,
+    };
+  }
+
+  async runNow(): Promise<ScheduledScanRun | null> {
+    if (this.running) {
+      throw new Error('A scheduled scan is already running');
+    }
+
+    this.running = true;
+    try {
+      const run = await this.runScan();
+      if (run) {
+        this.anchor = run.startedAt;
+        this.store.set('lastRun', run);
+      }
+      return run;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runIfDue(): Promise<void> {
+    const schedule = this.getSchedule();
+    if (!schedule.enabled || this.running) {
+      return;
+    }
+    if (Date.now() < getNextScheduledRun(schedule, this.anchor)) {
+      return;
+    }
+
+    try {
+      await this.runNow();
+    } catch (error) {
+      console.error('Scheduled scan error:', error);
+    }
+  }
+}
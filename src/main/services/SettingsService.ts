@@ -0,0 +1,206 @@
+import { randomBytes } from 'crypto';
+import ElectronStore from 'electron-store';
+import type {
+  AppSettings,
+  AutomationApiSettings,
+  DuplicateTrackPreference,
+  FuzzyDatePolicy,
+  ReleaseFilters,
+  ScanScheduleFrequency,
+  ScanScheduleSettings,
+  UpdateSettingsRequest,
+} from '../../shared/types';
+
+const DEFAULT_SETTINGS: AppSettings = {
+  marketOverride: null,
+  extraScanMarkets: [],
+  fuzzyDatePolicy: 'overlap',
+  duplicateTrackPreference: 'album',
+  rollingPlaylist: {
+    enabled: false,
+    playlistId: null,
+    playlistName: 'New Releases',
+    retentionDays: 30,
+  },
+  releaseFilters: {
+    albumTypes: ['album', 'single', 'compilation'],
+    includeKeywords: [],
+    excludeKeywords: [],
+    minTracks: null,
+    maxTracks: null,
+    excludeExplicit: false,
+    excludedArtists: [],
+  },
+  scanSchedule: {
+    enabled: false,
+    frequency: 'weekly',
+    dayOfWeek: 5,
+    time: '09:00',
+    daysBack: 7,
+    createPlaylist: true,
+  },
+  automationApi: {
+    enabled: false,
+    port: 8765,
+    token: '',
+  },
+};
+
+const MAX_ROLLING_RETENTION_DAYS = 365;
+
+const FUZZY_DATE_POLICIES: FuzzyDatePolicy[] = ['start', 'end', 'overlap'];
+const DUPLICATE_TRACK_PREFERENCES: DuplicateTrackPreference[] = ['album', 'single'];
+
+const ALBUM_TYPES: ReleaseFilters['albumTypes'] = ['album', 'single', 'compilation'];
+
+const SCHEDULE_FREQUENCIES: ScanScheduleFrequency[] = ['daily', 'weekly'];
+const MAX_SCHEDULE_DAYS_BACK = 90;
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Ports below this need elevated privileges on most systems
+const MIN_AUTOMATION_API_PORT = 1024;
+const MAX_AUTOMATION_API_PORT = 65535;
+
+const MARKET_CODE_PATTERN = /^[A-Z]{2}$/;
+
+function normalizeMarket(value: string): string {
+  const market = value.trim().toUpperCase();
+  if (!MARKET_CODE_PATTERN.test(market)) {
+    throw new Error(`Invalid market code "${value}". Use a two-letter country code such as US or SE.`);
+  }
+  return market;
+}
+
+function normalizeTrackCount(value: number | null, label: string): number | null {
+  if (value === null) {
+    return null;
+  }
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${label} track count must be a whole number of at least 1`);
+  }
+  return value;
+}
+
+function normalizeReleaseFilters(filters: ReleaseFilters): ReleaseFilters {
+  const unknownType = filters.albumTypes.find((albumType) => !ALBUM_TYPES.includes(albumType));
+  if (unknownType) {
+    throw new Error(`Unknown release type "${unknownType}"`);
+  }
+
+  const minTracks = normalizeTrackCount(filters.minTracks, 'Minimum');
+  const maxTracks = normalizeTrackCount(filters.maxTracks, 'Maximum');
+  if (minTracks !== null && maxTracks !== null && minTracks > maxTracks) {
+    throw new Error('Minimum track count cannot be larger than the maximum');
+  }
+
+  const cleanKeywords = (keywords: string[]) =>
+    Array.from(new Set(keywords.map((keyword) => keyword.trim()).filter(Boolean)));
+
+  return {
+    albumTypes: Array.from(new Set(filters.albumTypes)),
+    includeKeywords: cleanKeywords(filters.includeKeywords),
+    excludeKeywords: cleanKeywords(filters.excludeKeywords),
+    minTracks,
+    maxTracks,
+    excludeExplicit: Boolean(filters.excludeExplicit),
+    excludedArtists: filters.excludedArtists.filter(
+      (artist, index, all) => all.findIndex((other) => other.id === artist.id) === index
+    ),
+  };
+}
+
+function normalizeScanSchedule(schedule: ScanScheduleSettings): ScanScheduleSettings {
+  if (!SCHEDULE_FREQUENCIES.includes(schedule.frequency)) {
+    throw new Error(`Unknown schedule frequency "${schedule.frequency}"`);
+  }
+  if (!Number.isInteger(schedule.dayOfWeek) || schedule.dayOfWeek < 0 || schedule.dayOfWeek > 6) {
+    throw new Error('Scheduled scan day must be a day of the week');
+  }
+  if (!TIME_OF_DAY_PATTERN.test(schedule.time)) {
+    throw new Error(`Invalid scheduled scan time "${schedule.time}". Use HH:MM, e.g. 09:00.`);
+  }
+  if (
+    !Number.isInteger(schedule.daysBack) ||
+    schedule.daysBack < 1 ||
+    schedule.daysBack > MAX_SCHEDULE_DAYS_BACK
+  ) {
+    throw new Error(`Scheduled scans can look back between 1 and ${MAX_SCHEDULE_DAYS_BACK} days`);
+  }
+
+  return {
+    ...schedule,
+    enabled: Boolean(schedule.enabled),
+    createPlaylist: Boolean(schedule.createPlaylist),
+  };
+}
+
+function normalizeAutomationApi(settings: AutomationApiSettings): AutomationApiSettings {
+  if (
+    !Number.isInteger(settings.port) ||
+    settings.port < MIN_AUTOMATION_API_PORT ||
+    settings.port > MAX_AUTOMATION_API_PORT
+  ) {
+    throw new Error(
+      `Automation API port must be between ${MIN_AUTOMATION_API_PORT} and ${MAX_AUTOMATION_API_PORT}`
+    );
+  }
+
+  return {
+    enabled: Boolean(settings.enabled),
+    port: settings.port,
+    token: settings.token.trim() || randomBytes(24).toString('hex'),
+  };
+}
+
+/**
+ * User preferences that outlive a session, stored next to the token store.
+ */
+export class SettingsService {
+  private store: ElectronStore<{ settings: AppSettings }>;
+
+  constructor() {
+    this.store = new ElectronStore<{ settings: AppSettings }>({
+      name: 'settings',
+      defaults: { settings: DEFAULT_SETTINGS },
+    });
+  }
+
+  get(): AppSettings {
+    // Fill in keys added after the settings file was first written
+    return { ...DEFAULT_SETTINGS, ...this.store.get('settings') };
+  }
+
+  update(changes: UpdateSettingsRequest): AppSettings {
+    const next: AppSettings = { ...this.get(), ...changes };
+
+    next.marketOverride = next.marketOverride ? normalizeMarket(next.marketOverride) : null;
+    next.extraScanMarkets = Array.from(new Set(next.extraScanMarkets.map(normalizeMarket)));
+    if (!FUZZY_DATE_POLICIES.includes(next.fuzzyDatePolicy)) {
+      throw new Error(`Unknown release date policy "${next.fuzzyDatePolicy}"`);
+    }
+    if (!DUPLICATE_TRACK_PREFERENCES.includes(next.duplicateTrackPreference)) {
+      throw new Error(`Unknown duplicate track preference "${next.duplicateTrackPreference}"`);
+    }
+
+    const { retentionDays, playlistName } = next.rollingPlaylist;
+    if (
+      !Number.isInteger(retentionDays) ||
+      retentionDays < 1 ||
+      retentionDays > MAX_ROLLING_RETENTION_DAYS
+    ) {
+      throw new Error(
+        `Rolling playlist retention must be between 1 and ${MAX_ROLLING_RETENTION_DAYS} days`
+      );
+    }
+    next.rollingPlaylist = {
+      ...next.rollingPlaylist,
+      playlistName: playlistName.trim() || DEFAULT_SETTINGS.rollingPlaylist.playlistName,
+    };
+    next.releaseFilters = normalizeReleaseFilters(next.releaseFilters);
+    next.scanSchedule = normalizeScanSchedule(next.scanSchedule);
+    next.automationApi = normalizeAutomationApi(next.automationApi);
+
+    this.store.set('settings', next);
+    return next;
+  }
+}
@@ -5,34 +5,92 @@ import axios, {
   InternalAxiosRequestConfig,
 } from 'axios';
 import type {
+  AnalysisSourceType,
   AnalyzePlaylistResponse,
+  AnalyzePlaylistsResponse,
   AuthTokens,
   CreatePlaylistResponse,
+  DuplicateTrackPreference,
   FollowArtistsResponse,
+  FindStaleArtistsResponse,
+  FollowedArtist,
+  FuzzyDatePolicy,
+  GetLastReleaseDatesResponse,
+  GetRelatedArtistsResponse,
+  GetReleaseTracksResponse,
+  OptionalReleaseGroup,
+  PlaylistTarget,
+  PlaylistAppearance,
   ProgressUpdate,
+  ReleaseArtistRole,
+  RelatedArtistCandidate,
+  ReleaseFilters,
+  ReleaseTrack,
   ReleaseWithArtist,
+  RequestPriority,
+  RequestSchedulerStats,
+  ScanReleasesBatch,
   ScanReleasesResponse,
+  SpotifyAlbum,
   SpotifyArtist,
+  SpotifyPlaylist,
+  StaleArtist,
+  UnfollowArtistsResponse,
   UnfollowedArtist,
 } from '../../shared/types';
 import {
   CHUNK_SIZE_FOLLOW,
   CHUNK_SIZE_PLAYLIST_ADD,
-  DEFAULT_DELAY_MS,
-  MAX_DYNAMIC_DELAY_MS,
+  DEFAULT_MARKET,
   MAX_RATE_LIMIT_WAIT_SECONDS,
-  MAX_REQUESTS_PER_INTERVAL,
   RATE_LIMIT_RETRY_DEFAULT,
-  REQUEST_INTERVAL_MS,
-  SPOTIFY_API_BASE_URL,
 } from '../../shared/constants';
 import { AuthService } from './AuthService';
+import {
+  ArtistScanWatermark,
+  CacheStore,
+  PersistedCacheSnapshot,
+  ScannedAlbumGroup,
+} from './CacheStore';
+import { EndpointClass, RateLimitExceededError, RequestScheduler } from './RequestScheduler';
+import { SettingsService } from './SettingsService';
+import {
+  isCancellationError,
+  OperationCancelledError,
+  sleep,
+  throwIfCancelled,
+} from '../utils/cancellation';
+import {
+  AnalysisSource,
+  getAnalysisSourceKey,
+  parseAnalysisSource,
+} from '../utils/analysisSource';
+import { filterReleases, isArtistExcluded } from '../utils/releaseFilters';
+import { getSpotifyApiBaseUrl } from '../utils/spotifyEndpoints';
 
 const CACHE_TTL_FOLLOWED_ARTISTS_MS = 1000 * 60 * 60 * 4; // 4 hours
 const CACHE_TTL_ARTIST_DETAILS_MS = 1000 * 60 * 60 * 6; // 6 hours
 const CACHE_TTL_FOLLOW_STATUS_MS = 1000 * 60 * 60 * 2; // 2 hours
 const CACHE_TTL_PLAYLIST_ANALYSIS_MS = 1000 * 60 * 10; // 10 minutes
 const CACHE_TTL_RELATED_ARTISTS_MS = 1000 * 60 * 60 * 3; // 3 hours
+const CACHE_TTL_LAST_RELEASE_MS = 1000 * 60 * 60 * 24; // 24 hours
+const CACHE_TTL_SOURCE_ARTISTS_MS = 1000 * 60 * 60 * 24 * 30; // 30 days
+const CACHE_PERSIST_DEBOUNCE_MS = 1000 * 5; // 5 seconds
+const MAX_PERSISTED_ALBUM_TRACKS = 2000;
+const MAX_PERSISTED_SOURCE_ARTISTS = 200;
+const WATERMARK_RETENTION_MS = 1000 * 60 * 60 * 24 * 365; // 1 year
+const DAY_MS = 1000 * 60 * 60 * 24;
+const MAX_RELATED_DEPTH = 3;
+const MAX_RELATED_EXPANSIONS_PER_HOP = 20; // Best-scoring candidates expanded on each further hop
+const MAX_FALLBACK_CANDIDATES = 100; // Best local matches checked for follow status
+
+const SOURCE_LABELS: Record<AnalysisSourceType, string> = {
+  playlist: 'playlist',
+  album: 'album',
+  artist: 'artist',
+  track: 'track',
+  'liked-songs': 'Liked Songs',
+};
 
 type AlbumTracksSummary = {
   items: Array<{ id: string | null }>;
@@ -46,18 +104,47 @@ type AlbumWithTracks = {
   tracks?: AlbumTracksSummary;
 };
 
+type TrackMetadata = ReleaseTrack & {
+  isrc: string | null;
+};
+
+type TrackArtistRef = Pick<SpotifyArtist, 'id' | 'name' | 'external_urls'>;
+
+type AnalysisSourceInfo = {
+  name: string;
+  owner: string;
+  // A track source's own artists, so the track is not fetched twice
+  trackArtists?: TrackArtistRef[];
+};
+
+type SpotifyUserProfile = {
+  id: string;
+  display_name?: string;
+  country?: string;
+};
+
 export class SpotifyService {
   private api: AxiosInstance;
 
+  private apiBaseUrl: string;
+
   private tokens: AuthTokens;
 
   private tokenRefreshPromise: Promise<AuthTokens | null> | null = null;
 
   private authService: AuthService;
 
-  private requestTimestamps: number[] = [];
+  private cacheStore: CacheStore | null;
+
+  private settingsService: SettingsService | null;
+
+  private cacheAccountId: string | null = null;
+
+  private cachePersistTimer: NodeJS.Timeout | null = null;
 
-  private currentDelayMs = DEFAULT_DELAY_MS;
+  private currentUserPromise: Promise<SpotifyUserProfile> | null = null;
+
+  private scheduler = new RequestScheduler();
 
   private albumTrackCache = new Map<string, string[]>();
 
@@ -74,16 +161,34 @@ export class SpotifyService {
 
   private relatedArtistsCache = new Map<string, { artists: SpotifyArtist[]; timestamp: number }>();
 
+  private scanWatermarks = new Map<string, ArtistScanWatermark>();
+
+  private lastReleaseCache = new Map<string, { releaseDate: string | null; timestamp: number }>();
+
+  // Set once /related-artists is refused so later lookups go straight to local recommendations
+  private relatedArtistsUnavailable = false;
+
+  // Which artists appeared together on each analyzed source, for co-occurrence recommendations
+  private sourceArtistsCache = new Map<string, { artistIds: string[]; timestamp: number }>();
+
   private playlistAnalysisCache = new Map<
     string,
     { response: AnalyzePlaylistResponse; timestamp: number }
   >();
 
-  constructor(tokens: AuthTokens, authService: AuthService) {
+  constructor(
+    tokens: AuthTokens,
+    authService: AuthService,
+    cacheStore: CacheStore | null = null,
+    settingsService: SettingsService | null = null
+  ) {
     this.tokens = tokens;
     this.authService = authService;
+    this.cacheStore = cacheStore;
+    this.settingsService = settingsService;
+    this.apiBaseUrl = getSpotifyApiBaseUrl();
     this.api = axios.create({
-      baseURL: SPOTIFY_API_BASE_URL,
+      baseURL: this.apiBaseUrl,
       headers: {
         Authorization: `Bearer ${tokens.access_token}`,
       },
@@ -95,6 +200,12 @@ export class SpotifyService {
       (response) => response,
       async (error) => this.handleUnauthorized(error)
     );
+
+    // Assume the last account until /me confirms it; see ensureCacheScope
+    const lastAccountId = cacheStore?.getLastAccountId() ?? null;
+    if (lastAccountId) {
+      this.loadPersistedCache(lastAccountId);
+    }
   }
 
   private injectAuthorization(
@@ -155,18 +266,235 @@ export class SpotifyService {
   }
 
   setTokens(tokens: AuthTokens) {
+    if (tokens.refresh_token !== this.tokens.refresh_token) {
+      // A different login may belong to another account
+      this.currentUserPromise = null;
+    }
     this.tokens = tokens;
     this.api.defaults.headers.common.Authorization = `Bearer ${tokens.access_token}`;
   }
 
-  private async delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private async delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleep(ms, signal);
   }
 
   private isCacheEntryValid(timestamp: number, ttlMs: number): boolean {
     return Date.now() - timestamp < ttlMs;
   }
 
+  private async getCurrentUser(): Promise<SpotifyUserProfile> {
+    if (!this.currentUserPromise) {
+      this.currentUserPromise = this.apiCallWithRetry(() => this.api.get('/me'), {
+        endpoint: 'user',
+      })
+        .then((response) => response.data as SpotifyUserProfile)
+        .catch((error) => {
+          this.currentUserPromise = null;
+          throw error;
+        });
+    }
+
+    return this.currentUserPromise;
+  }
+
+  async getAccountMarket(): Promise<string | null> {
+    const { country } = await this.getCurrentUser();
+    return country ?? null;
+  }
+
+  /**
+   * Market used for catalog lookups: the settings override if there is one,
+   * otherwise the country of the signed-in account.
+   */
+  private async getMarket(): Promise<string> {
+    const override = this.settingsService?.get().marketOverride;
+    if (override) {
+      return override;
+    }
+
+    return (await this.getAccountMarket()) ?? DEFAULT_MARKET;
+  }
+
+  /**
+   * Makes sure the in-memory caches belong to the signed-in account, swapping in
+   * that account's persisted cache if a different one was loaded at startup.
+   */
+  private async ensureCacheScope(): Promise<void> {
+    if (!this.cacheStore) {
+      return;
+    }
+
+    const user = await this.getCurrentUser();
+    if (user.id === this.cacheAccountId) {
+      return;
+    }
+
+    if (this.cacheAccountId) {
+      this.flushCache();
+    }
+
+    this.clearCaches();
+    this.loadPersistedCache(user.id);
+    this.cacheAccountId = user.id;
+  }
+
+  private clearCaches(): void {
+    this.albumTrackCache.clear();
+    this.followedArtistsCache = null;
+    this.followedArtistsCacheByLimit.clear();
+    this.artistDetailsCache.clear();
+    this.followStatusCache.clear();
+    this.relatedArtistsCache.clear();
+    this.playlistAnalysisCache.clear();
+    this.scanWatermarks.clear();
+    this.lastReleaseCache.clear();
+    this.sourceArtistsCache.clear();
+  }
+
+  private loadPersistedCache(accountId: string): void {
+    this.cacheAccountId = accountId;
+    const snapshot = this.cacheStore?.load(accountId);
+    if (!snapshot) {
+      return;
+    }
+
+    for (const [artistId, entry] of Object.entries(snapshot.artistDetails)) {
+      if (this.isCacheEntryValid(entry.timestamp, CACHE_TTL_ARTIST_DETAILS_MS)) {
+        this.artistDetailsCache.set(artistId, entry);
+      }
+    }
+
+    for (const [albumId, trackIds] of Object.entries(snapshot.albumTracks)) {
+      this.albumTrackCache.set(albumId, trackIds);
+    }
+
+    for (const [artistId, entry] of Object.entries(snapshot.relatedArtists)) {
+      if (this.isCacheEntryValid(entry.timestamp, CACHE_TTL_RELATED_ARTISTS_MS)) {
+        this.relatedArtistsCache.set(artistId, entry);
+      }
+    }
+
+    for (const [artistId, entry] of Object.entries(snapshot.followStatus)) {
+      if (this.isCacheEntryValid(entry.timestamp, CACHE_TTL_FOLLOW_STATUS_MS)) {
+        this.followStatusCache.set(artistId, entry);
+      }
+    }
+
+    if (
+      snapshot.followedArtists &&
+      this.isCacheEntryValid(snapshot.followedArtists.timestamp, CACHE_TTL_FOLLOWED_ARTISTS_MS)
+    ) {
+      this.followedArtistsCache = snapshot.followedArtists;
+    }
+
+    for (const [key, watermark] of Object.entries(snapshot.scanWatermarks)) {
+      this.scanWatermarks.set(key, watermark);
+    }
+
+    for (const [artistId, entry] of Object.entries(snapshot.lastReleaseDates)) {
+      if (this.isCacheEntryValid(entry.timestamp, CACHE_TTL_LAST_RELEASE_MS)) {
+        this.lastReleaseCache.set(artistId, entry);
+      }
+    }
+
+    for (const [sourceKey, entry] of Object.entries(snapshot.sourceArtists)) {
+      if (this.isCacheEntryValid(entry.timestamp, CACHE_TTL_SOURCE_ARTISTS_MS)) {
+        this.sourceArtistsCache.set(sourceKey, entry);
+      }
+    }
+
+    console.log(`[cache] Loaded persisted cache for account ${accountId}`);
+  }
+
+  private buildCacheSnapshot(): PersistedCacheSnapshot {
+    const snapshot: PersistedCacheSnapshot = {
+      savedAt: Date.now(),
+      artistDetails: {},
+      albumTracks: {},
+      relatedArtists: {},
+      followStatus: {},
+      followedArtists: null,
+      lastReleaseDates: {},
+      sourceArtists: {},
+      scanWatermarks: Object.fromEntries(this.scanWatermarks),
+    };
+
+    for (const [artistId, entry] of this.artistDetailsCache) {
+      if (this.isCacheEntryValid(entry.timestamp, CACHE_TTL_ARTIST_DETAILS_MS)) {
+        snapshot.artistDetails[artistId] = entry;
+      }
+    }
+
+    // Track lists never expire, so keep only the most recently cached albums
+    const albumEntries = Array.from(this.albumTrackCache.entries());
+    for (const [albumId, trackIds] of albumEntries.slice(-MAX_PERSISTED_ALBUM_TRACKS)) {
+      snapshot.albumTracks[albumId] = trackIds;
+    }
+
+    for (const [artistId, entry] of this.relatedArtistsCache) {
+      if (this.isCacheEntryValid(entry.timestamp, CACHE_TTL_RELATED_ARTISTS_MS)) {
+        snapshot.relatedArtists[artistId] = entry;
+      }
+    }
+
+    for (const [artistId, entry] of this.followStatusCache) {
+      if (this.isCacheEntryValid(entry.timestamp, CACHE_TTL_FOLLOW_STATUS_MS)) {
+        snapshot.followStatus[artistId] = entry;
+      }
+    }
+
+    if (
+      this.followedArtistsCache &&
+      this.isCacheEntryValid(this.followedArtistsCache.timestamp, CACHE_TTL_FOLLOWED_ARTISTS_MS)
+    ) {
+      snapshot.followedArtists = this.followedArtistsCache;
+    }
+
+    for (const [artistId, entry] of this.lastReleaseCache) {
+      if (this.isCacheEntryValid(entry.timestamp, CACHE_TTL_LAST_RELEASE_MS)) {
+        snapshot.lastReleaseDates[artistId] = entry;
+      }
+    }
+
+    const sourceEntries = Array.from(this.sourceArtistsCache.entries()).filter(([, entry]) =>
+      this.isCacheEntryValid(entry.timestamp, CACHE_TTL_SOURCE_ARTISTS_MS)
+    );
+    for (const [sourceKey, entry] of sourceEntries.slice(-MAX_PERSISTED_SOURCE_ARTISTS)) {
+      snapshot.sourceArtists[sourceKey] = entry;
+    }
+
+    return snapshot;
+  }
+
+  private schedulePersist(): void {
+    if (!this.cacheStore || this.cachePersistTimer) {
+      return;
+    }
+
+    this.cachePersistTimer = setTimeout(() => {
+      this.cachePersistTimer = null;
+      this.flushCache();
+    }, CACHE_PERSIST_DEBOUNCE_MS);
+    this.cachePersistTimer.unref?.();
+  }
+
+  flushCache(): void {
+    if (this.cachePersistTimer) {
+      clearTimeout(this.cachePersistTimer);
+      this.cachePersistTimer = null;
+    }
+
+    if (!this.cacheStore || !this.cacheAccountId) {
+      return;
+    }
+
+    try {
+      this.cacheStore.save(this.cacheAccountId, this.buildCacheSnapshot());
+    } catch (error) {
+      console.error('[cache] Failed to persist cache:', error);
+    }
+  }
+
   private cloneArtist(artist: SpotifyArtist): SpotifyArtist {
     return {
       ...artist,
@@ -194,6 +522,7 @@ export class SpotifyService {
       artist: this.cloneArtist(artist),
       timestamp: Date.now(),
     });
+    this.schedulePersist();
   }
 
   private getCachedRelatedArtists(artistId: string): SpotifyArtist[] | null {
@@ -215,18 +544,19 @@ export class SpotifyService {
       artists: artists.map((artist) => this.cloneArtist(artist)),
       timestamp: Date.now(),
     });
+    this.schedulePersist();
   }
 
   private getCachedPlaylistAnalysis(
-    playlistId: string
+    sourceKey: string
   ): AnalyzePlaylistResponse | null {
-    const cached = this.playlistAnalysisCache.get(playlistId);
+    const cached = this.playlistAnalysisCache.get(sourceKey);
     if (!cached) {
       return null;
     }
 
     if (!this.isCacheEntryValid(cached.timestamp, CACHE_TTL_PLAYLIST_ANALYSIS_MS)) {
-      this.playlistAnalysisCache.delete(playlistId);
+      this.playlistAnalysisCache.delete(sourceKey);
       return null;
     }
 
@@ -241,10 +571,10 @@ export class SpotifyService {
   }
 
   private setPlaylistAnalysisCache(
-    playlistId: string,
+    sourceKey: string,
     response: AnalyzePlaylistResponse
   ): void {
-    this.playlistAnalysisCache.set(playlistId, {
+    this.playlistAnalysisCache.set(sourceKey, {
       response: {
         ...response,
         unfollowedArtists: response.unfollowedArtists.map((artist) => ({
@@ -257,25 +587,15 @@ export class SpotifyService {
     });
   }
 
-  private async throttleRequests(): Promise<void> {
-    while (true) {
-      const now = Date.now();
-      this.requestTimestamps = this.requestTimestamps.filter(
-        (timestamp) => now - timestamp < REQUEST_INTERVAL_MS
-      );
-
-      if (this.requestTimestamps.length < MAX_REQUESTS_PER_INTERVAL) {
-        this.requestTimestamps.push(now);
-        return;
-      }
-
-      const earliest = this.requestTimestamps[0];
-      const waitTime = REQUEST_INTERVAL_MS - (now - earliest) + 25;
-      await this.delay(waitTime);
-    }
+  getSchedulerStats(): RequestSchedulerStats {
+    return this.scheduler.getStats();
   }
 
-  private async handleRateLimit(error: AxiosError): Promise<number> {
+  /**
+   * Hands the Retry-After window to the scheduler, which holds back further
+   * requests to the same endpoint class until it has passed.
+   */
+  private handleRateLimit(error: AxiosError, endpoint: EndpointClass): number {
     if (error.response?.status === 429) {
       const retryAfter = error.response.headers['retry-after'];
       let requestedWait = retryAfter ? parseInt(retryAfter, 10) : RATE_LIMIT_RETRY_DEFAULT;
@@ -283,40 +603,54 @@ export class SpotifyService {
         requestedWait = RATE_LIMIT_RETRY_DEFAULT;
       }
 
+      this.scheduler.reportRateLimited(endpoint, requestedWait);
+
       if (requestedWait > MAX_RATE_LIMIT_WAIT_SECONDS) {
-        throw new Error(
-          `Spotify rate limit exceeded. Please try again in approximately ${Math.ceil(
-            requestedWait / 60
-          )} minutes.`
-        );
+        throw new RateLimitExceededError(requestedWait);
       }
 
-      const waitTime = Math.min(requestedWait, MAX_RATE_LIMIT_WAIT_SECONDS);
-      console.log(`Rate limited. Waiting ${waitTime} seconds...`);
-      await this.delay((waitTime + 1) * 1000);
-      this.currentDelayMs = Math.min(this.currentDelayMs * 1.5, MAX_DYNAMIC_DELAY_MS);
-      return waitTime;
+      console.log(`Rate limited on ${endpoint}. Waiting ${requestedWait} seconds...`);
+      return requestedWait;
     }
 
     throw error;
   }
 
-  private async apiCallWithRetry<T>(apiCall: () => Promise<T>, maxRetries = 5): Promise<T> {
+  private async apiCallWithRetry<T>(
+    apiCall: (signal?: AbortSignal) => Promise<T>,
+    options: {
+      endpoint: EndpointClass;
+      priority?: RequestPriority;
+      signal?: AbortSignal;
+      maxRetries?: number;
+    }
+  ): Promise<T> {
+    const { endpoint, priority = 'interactive', signal, maxRetries = 5 } = options;
+
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        await this.throttleRequests();
-        const jitter = Math.random() * this.currentDelayMs * 0.3;
-        await this.delay(this.currentDelayMs + jitter);
-        const result = await apiCall();
-        this.currentDelayMs = Math.max(DEFAULT_DELAY_MS, Math.floor(this.currentDelayMs * 0.9));
+        throwIfCancelled(signal);
+        await this.scheduler.acquire(endpoint, priority, signal);
+        const result = await apiCall(signal);
+        this.scheduler.reportSuccess();
         return result;
       } catch (error) {
+        if (isCancellationError(error)) {
+          throw new OperationCancelledError();
+        }
+
         if (axios.isAxiosError(error)) {
           if (error.response?.status === 429) {
-            await this.handleRateLimit(error);
+            this.handleRateLimit(error, endpoint);
             continue;
           }
 
+          // Other client errors (a bad ID, missing access) fail the same way every time
+          const status = error.response?.status;
+          if (status !== undefined && status >= 400 && status < 500) {
+            throw error;
+          }
+
           if (
             error.code === 'ECONNRESET' ||
             error.code === 'ETIMEDOUT' ||
@@ -331,7 +665,7 @@ export class SpotifyService {
                 attempt + 1
               }/${maxRetries})`
             );
-            await this.delay(waitTime);
+            await this.delay(waitTime, signal);
             continue;
           }
         }
@@ -342,204 +676,566 @@ export class SpotifyService {
 
         const waitTime = Math.pow(2, attempt) * 1000;
         console.log(`API call failed, retrying in ${waitTime}ms...`);
-        await this.delay(waitTime);
+        await this.delay(waitTime, signal);
       }
     }
 
     throw new Error('Max retries exceeded');
   }
 
-  private extractPlaylistId(playlistUrl: string): string {
-    const match = playlistUrl.match(/playlist[\/:]([a-zA-Z0-9]+)/);
-    if (match && match[1]) {
-      return match[1];
-    }
-
-    if (/^[a-zA-Z0-9]+$/.test(playlistUrl)) {
-      return playlistUrl;
-    }
-
-    throw new Error('Invalid playlist URL or ID');
-  }
-
-  async analyzePlaylist(
-    playlistUrl: string,
-    onProgress?: (progress: ProgressUpdate) => void
+  /**
+   * Finds the artists on a playlist, album, artist discography, single track or the
+   * user's Liked Songs that the user does not follow, ranked by how many tracks they
+   * appear on.
+   */
+  async analyzeSource(
+    sourceInput: string,
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
   ): Promise<AnalyzePlaylistResponse> {
-    const playlistId = this.extractPlaylistId(playlistUrl);
+    const source = parseAnalysisSource(sourceInput);
+    const sourceKey = getAnalysisSourceKey(source);
+    const sourceLabel = SOURCE_LABELS[source.type];
+
+    await this.ensureCacheScope();
 
-    const cachedAnalysis = this.getCachedPlaylistAnalysis(playlistId);
+    const cachedAnalysis = this.getCachedPlaylistAnalysis(sourceKey);
     if (cachedAnalysis) {
       onProgress?.({
         current: 4,
         total: 4,
-        message: 'Using cached playlist analysis.',
+        message: `Using cached ${sourceLabel} analysis.`,
       });
       return cachedAnalysis;
     }
 
-    onProgress?.({ current: 0, total: 4, message: 'Fetching playlist info...' });
-    const playlistInfo = await this.apiCallWithRetry(() =>
-      this.api.get(`/playlists/${playlistId}`, {
-        params: { fields: 'name,owner(display_name)' },
-      })
-    );
-
-    const playlistName = playlistInfo.data.name;
-    const playlistOwner = playlistInfo.data.owner.display_name;
+    onProgress?.({ current: 0, total: 4, message: `Fetching ${sourceLabel} info...` });
+    let sourceInfo: AnalysisSourceInfo;
+    try {
+      sourceInfo = await this.getAnalysisSourceInfo(source, signal);
+    } catch (error) {
+      if (!isCancellationError(error)) {
+        throw error;
+      }
+      return {
+        sourceType: source.type,
+        playlistName: '',
+        playlistOwner: '',
+        unfollowedArtists: [],
+        cancelled: true,
+      };
+    }
 
     onProgress?.({ current: 1, total: 4, message: 'Fetching data...' });
     const { artists: playlistArtists, frequency: artistFrequency } =
-      await this.getPlaylistArtistData(playlistId);
-    const followedArtistIds = await this.getFollowStatusForArtists(Object.keys(playlistArtists));
+      await this.getSourceArtistData(source, signal, sourceInfo.trackArtists);
 
     onProgress?.({ current: 3, total: 4, message: 'Analyzing artists...' });
+    const { unfollowedArtists, cancelled } = await this.selectUnfollowedArtists(
+      playlistArtists,
+      artistFrequency,
+      signal
+    );
 
-    const unfollowedArtists: UnfollowedArtist[] = [];
-    for (const [artistId, artist] of Object.entries(playlistArtists)) {
-      if (!followedArtistIds.has(artistId)) {
-        unfollowedArtists.push({
-          ...artist,
-          frequency: artistFrequency[artistId] || 0,
-        });
-      }
-    }
-
-    unfollowedArtists.sort((a, b) => {
-      if (b.frequency !== a.frequency) {
-        return b.frequency - a.frequency;
-      }
-      return a.name.localeCompare(b.name);
+    onProgress?.({
+      current: 4,
+      total: 4,
+      message: cancelled ? 'Analysis cancelled.' : 'Analysis complete!',
     });
 
-    onProgress?.({ current: 4, total: 4, message: 'Analysis complete!' });
-
     const response: AnalyzePlaylistResponse = {
-      playlistName,
-      playlistOwner,
+      sourceType: source.type,
+      playlistName: sourceInfo.name,
+      playlistOwner: sourceInfo.owner,
       unfollowedArtists,
+      cancelled,
     };
 
-    this.setPlaylistAnalysisCache(playlistId, response);
+    if (!cancelled) {
+      this.setPlaylistAnalysisCache(sourceKey, response);
+    }
 
     return response;
   }
 
-  private async getPlaylistArtistData(
-    playlistId: string
-  ): Promise<{ artists: Record<string, SpotifyArtist>; frequency: Record<string, number> }> {
+  /**
+   * Analyzes several sources together. Each artist's frequency is the total across
+   * all of them, with a per-playlist breakdown in `appearances`. Sources that cannot
+   * be read are reported in `failedSources` instead of failing the whole batch.
+   */
+  async analyzeSources(
+    sourceInputs: string[],
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<AnalyzePlaylistsResponse> {
+    const failedSources: AnalyzePlaylistsResponse['failedSources'] = [];
+    const sources = new Map<string, { input: string; source: AnalysisSource }>();
+    for (const input of sourceInputs.map((value) => value.trim()).filter(Boolean)) {
+      try {
+        const source = parseAnalysisSource(input);
+        const sourceKey = getAnalysisSourceKey(source);
+        if (!sources.has(sourceKey)) {
+          sources.set(sourceKey, { input, source });
+        }
+      } catch (error) {
+        failedSources.push({ source: input, error: (error as Error).message });
+      }
+    }
+
+    if (sources.size === 0 && failedSources.length === 0) {
+      throw new Error('Add at least one playlist to analyze');
+    }
+
+    await this.ensureCacheScope();
+
+    const total = sources.size + 1;
+    const playlists: AnalyzePlaylistsResponse['playlists'] = [];
     const artists: Record<string, SpotifyArtist> = {};
     const frequency: Record<string, number> = {};
-    const artistIdsToHydrate = new Set<string>();
-    let offset = 0;
-    const limit = 100;
-
-    while (true) {
-      const response = await this.apiCallWithRetry(() =>
-        this.api.get(`/playlists/${playlistId}/tracks`, {
-          params: {
-            offset,
-            limit,
-            fields: 'items(track(artists(id,name,external_urls))),next',
-          },
-        })
-      );
+    const appearances: Record<string, PlaylistAppearance[]> = {};
 
-      const items = response.data.items ?? [];
-      for (const item of items) {
-        if (!item.track?.artists) {
-          continue;
-        }
+    let processed = 0;
+    for (const { input, source } of sources.values()) {
+      if (signal?.aborted) {
+        break;
+      }
 
-        for (const artist of item.track.artists) {
-          if (!artist?.id) {
-            continue;
-          }
+      onProgress?.({
+        current: processed,
+        total,
+        message: `Reading ${SOURCE_LABELS[source.type]} ${processed + 1} of ${sources.size}...`,
+      });
 
-          frequency[artist.id] = (frequency[artist.id] || 0) + 1;
+      try {
+        const info = await this.getAnalysisSourceInfo(source, signal);
+        onProgress?.({
+          current: processed,
+          total,
+          message: `Reading "${info.name}" (${processed + 1} of ${sources.size})...`,
+        });
 
-          if (artists[artist.id]) {
-            continue;
-          }
+        const data = await this.getSourceArtistData(source, signal, info.trackArtists);
+        playlists.push({
+          source: input,
+          sourceType: source.type,
+          playlistName: info.name,
+          playlistOwner: info.owner,
+        });
 
-          const cachedArtist = this.getCachedArtistDetails(artist.id);
-          if (cachedArtist) {
-            artists[artist.id] = cachedArtist;
-            continue;
+        for (const [artistId, count] of Object.entries(data.frequency)) {
+          artists[artistId] = data.artists[artistId];
+          frequency[artistId] = (frequency[artistId] || 0) + count;
+          if (!appearances[artistId]) {
+            appearances[artistId] = [];
           }
-
-          artists[artist.id] = {
-            id: artist.id,
-            name: artist.name,
-            external_urls: artist.external_urls,
-          } as SpotifyArtist;
-          artistIdsToHydrate.add(artist.id);
+          appearances[artistId].push({ playlistName: info.name, count });
         }
+      } catch (error) {
+        if (isCancellationError(error)) {
+          break;
+        }
+        failedSources.push({ source: input, error: (error as Error).message });
       }
+      processed += 1;
+    }
 
-      if (!response.data.next) {
-        break;
-      }
-
-      offset += limit;
+    if (playlists.length === 0 && !signal?.aborted) {
+      throw new Error(failedSources[0]?.error ?? 'No playlists could be analyzed');
     }
 
-    if (artistIdsToHydrate.size > 0) {
-      const ids = Array.from(artistIdsToHydrate);
-      for (let i = 0; i < ids.length; i += 50) {
-        const batch = ids.slice(i, i + 50);
-        const response = await this.apiCallWithRetry(() =>
-          this.api.get('/artists', {
-            params: { ids: batch.join(',') },
-          })
-        );
+    onProgress?.({ current: total - 1, total, message: 'Analyzing artists...' });
+    const { unfollowedArtists, cancelled } = await this.selectUnfollowedArtists(
+      artists,
+      frequency,
+      signal
+    );
 
-        for (const fullArtist of response.data.artists ?? []) {
-          if (!fullArtist?.id || !artists[fullArtist.id]) {
-            continue;
-          }
+    onProgress?.({
+      current: total,
+      total,
+      message: cancelled ? 'Analysis cancelled.' : 'Analysis complete!',
+    });
 
-          const enriched = this.cloneArtist(fullArtist as SpotifyArtist);
-          artists[fullArtist.id] = enriched;
-          this.setArtistDetailsCache(enriched);
+    return {
+      playlists,
+      failedSources,
+      unfollowedArtists: unfollowedArtists.map((artist) => ({
+        ...artist,
+        appearances: [...appearances[artist.id]].sort((a, b) => b.count - a.count),
+      })),
+      cancelled,
+    };
+  }
+
+  /**
+   * Keeps the artists the user does not follow, most frequent first.
+   */
+  private async selectUnfollowedArtists(
+    artists: Record<string, SpotifyArtist>,
+    frequency: Record<string, number>,
+    signal?: AbortSignal
+  ): Promise<{ unfollowedArtists: UnfollowedArtist[]; cancelled: boolean }> {
+    let followedArtistIds = new Set<string>();
+    if (!signal?.aborted) {
+      try {
+        followedArtistIds = await this.getFollowStatusForArtists(Object.keys(artists), signal);
+      } catch (error) {
+        if (!isCancellationError(error)) {
+          throw error;
         }
       }
     }
 
-    return { artists, frequency };
-  }
+    // A cancelled analysis only reports artists whose follow status is already known.
+    const cancelled = Boolean(signal?.aborted);
 
-  private async getFollowStatusForArtists(artistIds: string[]): Promise<Set<string>> {
-    const followedIds = new Set<string>();
-    const idsToFetch: string[] = [];
+    const unfollowedArtists: UnfollowedArtist[] = [];
+    for (const [artistId, artist] of Object.entries(artists)) {
+      const isUnfollowed = cancelled
+        ? this.getCachedFollowStatus(artistId) === false
+        : !followedArtistIds.has(artistId);
 
-    for (const artistId of artistIds) {
-      const cached = this.followStatusCache.get(artistId);
-      if (cached && this.isCacheEntryValid(cached.timestamp, CACHE_TTL_FOLLOW_STATUS_MS)) {
-        if (cached.isFollowed) {
-          followedIds.add(artistId);
-        }
-        continue;
+      if (isUnfollowed) {
+        unfollowedArtists.push({
+          ...artist,
+          frequency: frequency[artistId] || 0,
+        });
       }
+    }
 
-      if (cached) {
-        this.followStatusCache.delete(artistId);
+    unfollowedArtists.sort((a, b) => {
+      if (b.frequency !== a.frequency) {
+        return b.frequency - a.frequency;
       }
+      return a.name.localeCompare(b.name);
+    });
 
-      idsToFetch.push(artistId);
-    }
-
-    for (let i = 0; i < idsToFetch.length; i += 50) {
-      const chunk = idsToFetch.slice(i, i + 50);
+    return { unfollowedArtists, cancelled };
+  }
 
-      if (!chunk.length) {
-        continue;
+  private async getAnalysisSourceInfo(
+    source: AnalysisSource,
+    signal?: AbortSignal
+  ): Promise<AnalysisSourceInfo> {
+    const joinArtistNames = (artists: TrackArtistRef[] | undefined) =>
+      (artists ?? []).map((artist) => artist.name).join(', ');
+
+    switch (source.type) {
+      case 'liked-songs': {
+        const user = await this.getCurrentUser();
+        return { name: 'Liked Songs', owner: user.display_name ?? user.id };
+      }
+      case 'album': {
+        const response = await this.apiCallWithRetry(
+          (requestSignal) => this.api.get(`/albums/${source.id}`, { signal: requestSignal }),
+          { signal, endpoint: 'albums' }
+        );
+        return { name: response.data.name, owner: joinArtistNames(response.data.artists) };
       }
+      case 'artist': {
+        const response = await this.apiCallWithRetry(
+          (requestSignal) => this.api.get(`/artists/${source.id}`, { signal: requestSignal }),
+          { signal, endpoint: 'artists' }
+        );
+        return { name: `${response.data.name} discography`, owner: response.data.name };
+      }
+      case 'track': {
+        const response = await this.apiCallWithRetry(
+          (requestSignal) => this.api.get(`/tracks/${source.id}`, { signal: requestSignal }),
+          { signal, endpoint: 'tracks' }
+        );
+        return {
+          name: response.data.name,
+          owner: joinArtistNames(response.data.artists),
+          trackArtists: response.data.artists ?? [],
+        };
+      }
+      case 'playlist': {
+        const response = await this.apiCallWithRetry(
+          (requestSignal) =>
+            this.api.get(`/playlists/${source.id}`, {
+              params: { fields: 'name,owner(display_name)' },
+              signal: requestSignal,
+            }),
+          { signal, endpoint: 'playlists' }
+        );
+        return { name: response.data.name, owner: response.data.owner.display_name };
+      }
+    }
+  }
 
-      const response = await this.apiCallWithRetry(() =>
-        this.api.get('/me/following/contains', {
-          params: { type: 'artist', ids: chunk.join(',') },
-        })
+  /**
+   * Hands every item of an offset-paged listing to `visitItem`, page by page.
+   */
+  private async forEachPagedItem<T>(
+    path: string,
+    params: Record<string, string | number>,
+    limit: number,
+    endpoint: EndpointClass,
+    visitItem: (item: T) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    let offset = 0;
+    while (true) {
+      const response = await this.apiCallWithRetry(
+        (requestSignal) =>
+          this.api.get(path, { params: { ...params, offset, limit }, signal: requestSignal }),
+        { signal, endpoint }
+      );
+
+      for (const item of (response.data.items ?? []) as T[]) {
+        visitItem(item);
+      }
+
+      if (!response.data.next) {
+        return;
+      }
+
+      offset += limit;
+    }
+  }
+
+  /**
+   * Pages through every track of the source and hands each track's artists to `visit`.
+   * A track source whose artists are already known is not fetched again.
+   */
+  private async forEachSourceTrack(
+    source: AnalysisSource,
+    visit: (artists: TrackArtistRef[]) => void,
+    signal?: AbortSignal,
+    trackArtists?: TrackArtistRef[]
+  ): Promise<void> {
+    const market = await this.getMarket();
+    const visitSavedTrack = (item: { track?: { artists?: TrackArtistRef[] } | null }) => {
+      if (item.track?.artists) {
+        visit(item.track.artists);
+      }
+    };
+    const visitAlbumTrack = (item: { artists?: TrackArtistRef[] }) => {
+      if (item.artists) {
+        visit(item.artists);
+      }
+    };
+
+    switch (source.type) {
+      case 'playlist':
+        await this.forEachPagedItem(
+          `/playlists/${source.id}/tracks`,
+          { market, fields: 'items(track(artists(id,name,external_urls))),next' },
+          100,
+          'playlists',
+          visitSavedTrack,
+          signal
+        );
+        return;
+      case 'liked-songs':
+        try {
+          await this.forEachPagedItem('/me/tracks', { market }, 50, 'tracks', visitSavedTrack, signal);
+        } catch (error) {
+          if (axios.isAxiosError(error) && error.response?.status === 403) {
+            throw new Error('Reading Liked Songs needs extra access. Log out and connect Spotify again.');
+          }
+          throw error;
+        }
+        return;
+      case 'album':
+        await this.forEachPagedItem(
+          `/albums/${source.id}/tracks`,
+          { market },
+          50,
+          'albums',
+          visitAlbumTrack,
+          signal
+        );
+        return;
+      case 'track': {
+        if (trackArtists) {
+          visit(trackArtists);
+          return;
+        }
+        const response = await this.apiCallWithRetry(
+          (requestSignal) => this.api.get(`/tracks/${source.id}`, { signal: requestSignal }),
+          { signal, endpoint: 'tracks' }
+        );
+        visit(response.data.artists ?? []);
+        return;
+      }
+      case 'artist': {
+        // Only the artist's own albums and singles; appearances belong to other discographies
+        const albumIds: string[] = [];
+        await this.forEachPagedItem(
+          `/artists/${source.id}/albums`,
+          { include_groups: 'album,single', market },
+          50,
+          'artist-albums',
+          (album: { id?: string }) => {
+            if (album.id) {
+              albumIds.push(album.id);
+            }
+          },
+          signal
+        );
+
+        for (const albumId of albumIds) {
+          await this.forEachPagedItem(
+            `/albums/${albumId}/tracks`,
+            { market },
+            50,
+            'albums',
+            visitAlbumTrack,
+            signal
+          );
+        }
+        return;
+      }
+    }
+  }
+
+  private async getSourceArtistData(
+    source: AnalysisSource,
+    signal?: AbortSignal,
+    trackArtists?: TrackArtistRef[]
+  ): Promise<{ artists: Record<string, SpotifyArtist>; frequency: Record<string, number> }> {
+    const artists: Record<string, SpotifyArtist> = {};
+    const frequency: Record<string, number> = {};
+    const artistIdsToHydrate = new Set<string>();
+
+    try {
+      await this.forEachSourceTrack(
+        source,
+        (trackArtists) => {
+          for (const artist of trackArtists) {
+            if (!artist?.id) {
+              continue;
+            }
+
+            frequency[artist.id] = (frequency[artist.id] || 0) + 1;
+
+            if (artists[artist.id]) {
+              continue;
+            }
+
+            const cachedArtist = this.getCachedArtistDetails(artist.id);
+            if (cachedArtist) {
+              artists[artist.id] = cachedArtist;
+              continue;
+            }
+
+            artists[artist.id] = {
+              id: artist.id,
+              name: artist.name,
+              external_urls: artist.external_urls,
+            } as SpotifyArtist;
+            artistIdsToHydrate.add(artist.id);
+          }
+        },
+        signal,
+        trackArtists
+      );
+
+      const ids = Array.from(artistIdsToHydrate);
+      for (let i = 0; i < ids.length; i += 50) {
+        const batch = ids.slice(i, i + 50);
+        const response = await this.apiCallWithRetry(
+          (requestSignal) =>
+            this.api.get('/artists', {
+              params: { ids: batch.join(',') },
+              signal: requestSignal,
+            }),
+          { signal, endpoint: 'artists' }
+        );
+
+        for (const fullArtist of response.data.artists ?? []) {
+          if (!fullArtist?.id || !artists[fullArtist.id]) {
+            continue;
+          }
+
+          const enriched = this.cloneArtist(fullArtist as SpotifyArtist);
+          artists[fullArtist.id] = enriched;
+          this.setArtistDetailsCache(enriched);
+        }
+      }
+    } catch (error) {
+      if (!isCancellationError(error)) {
+        throw error;
+      }
+    }
+
+    if (!signal?.aborted) {
+      const sourceKey = getAnalysisSourceKey(source);
+      // Re-inserted so the most recently analyzed sources survive the persistence cap
+      this.sourceArtistsCache.delete(sourceKey);
+      this.sourceArtistsCache.set(sourceKey, {
+        artistIds: Object.keys(artists),
+        timestamp: Date.now(),
+      });
+      this.schedulePersist();
+    }
+
+    return { artists, frequency };
+  }
+
+  private getCachedFollowStatus(artistId: string): boolean | null {
+    const cached = this.followStatusCache.get(artistId);
+    if (!cached || !this.isCacheEntryValid(cached.timestamp, CACHE_TTL_FOLLOW_STATUS_MS)) {
+      return null;
+    }
+    return cached.isFollowed;
+  }
+
+  private async getFollowStatusForArtists(
+    artistIds: string[],
+    signal?: AbortSignal
+  ): Promise<Set<string>> {
+    const followedIds = new Set<string>();
+    const idsToFetch: string[] = [];
+
+    for (const artistId of artistIds) {
+      const cached = this.followStatusCache.get(artistId);
+      if (cached && this.isCacheEntryValid(cached.timestamp, CACHE_TTL_FOLLOW_STATUS_MS)) {
+        if (cached.isFollowed) {
+          followedIds.add(artistId);
+        }
+        continue;
+      }
+
+      if (cached) {
+        this.followStatusCache.delete(artistId);
+      }
+
+      idsToFetch.push(artistId);
+    }
+
+    const statuses = await this.fetchFollowStatuses(idsToFetch, signal);
+    for (const [artistId, isFollowed] of statuses) {
+      if (isFollowed) {
+        followedIds.add(artistId);
+      }
+    }
+
+    return followedIds;
+  }
+
+  /**
+   * Asks /me/following/contains about each artist, bypassing the cache, and caches the
+   * answers.
+   */
+  private async fetchFollowStatuses(
+    artistIds: string[],
+    signal?: AbortSignal
+  ): Promise<Map<string, boolean>> {
+    const statusesById = new Map<string, boolean>();
+
+    for (let i = 0; i < artistIds.length; i += 50) {
+      const chunk = artistIds.slice(i, i + 50);
+
+      const response = await this.apiCallWithRetry(
+        (requestSignal) =>
+          this.api.get('/me/following/contains', {
+            params: { type: 'artist', ids: chunk.join(',') },
+            signal: requestSignal,
+          }),
+        { signal, endpoint: 'follow' }
       );
 
       const statuses: boolean[] = response.data;
@@ -549,76 +1245,435 @@ export class SpotifyService {
           isFollowed,
           timestamp: Date.now(),
         });
-
-        if (isFollowed) {
-          followedIds.add(artistId);
-        }
+        statusesById.set(artistId, isFollowed);
       });
+      this.schedulePersist();
     }
 
-    return followedIds;
+    return statusesById;
   }
 
-  async getRelatedArtists(artistIds: string[]): Promise<SpotifyArtist[]> {
+  /**
+   * Explores related artists up to `depth` hops from the seeds. Each candidate scores
+   * 1/hops for every seed it connects to, so artists close to many seeds rank first.
+   * Beyond the first hop only the best-scoring candidates are expanded.
+   */
+  async getRelatedArtists(
+    artistIds: string[],
+    depth = 1,
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<GetRelatedArtistsResponse> {
     const uniqueIds = Array.from(new Set(artistIds.filter((id) => Boolean(id))));
     if (!uniqueIds.length) {
-      return [];
+      return { artists: [], strategy: 'related-artists' };
+    }
+
+    if (!Number.isInteger(depth) || depth < 1 || depth > MAX_RELATED_DEPTH) {
+      throw new Error(`Depth must be between 1 and ${MAX_RELATED_DEPTH} hops`);
+    }
+
+    await this.ensureCacheScope();
+
+    if (this.relatedArtistsUnavailable) {
+      return this.recommendFromLocalData(uniqueIds, onProgress, signal);
     }
 
     const seedSet = new Set(uniqueIds);
-    const relatedMap = new Map<string, SpotifyArtist>();
+    // Every candidate reached so far, with its hop distance from each seed that reaches it
+    const reached = new Map<
+      string,
+      { artist: SpotifyArtist; seedDistances: Map<string, number> }
+    >();
+    let frontier = uniqueIds.map((id) => ({ id, seedDistances: new Map([[id, 0]]) }));
+    let cancelled = false;
+    let seedsNotFound = 0;
+    const useLocalRecommendations = () => {
+      console.warn('[related] /related-artists is unavailable - using local recommendations');
+      this.relatedArtistsUnavailable = true;
+      return this.recommendFromLocalData(uniqueIds, onProgress, signal);
+    };
 
-    for (const artistId of uniqueIds) {
-      let related = this.getCachedRelatedArtists(artistId);
+    for (let hop = 1; hop <= depth && frontier.length > 0 && !cancelled; hop++) {
+      const reachedThisHop = new Set<string>();
 
-      if (!related) {
-        const response = await this.apiCallWithRetry(() =>
-          this.api.get(`/artists/${artistId}/related-artists`)
-        );
+      for (let i = 0; i < frontier.length; i++) {
+        const node = frontier[i];
+        onProgress?.({
+          current: i,
+          total: frontier.length,
+          message: `Exploring hop ${hop} of ${depth}...`,
+        });
 
-        const fetched: SpotifyArtist[] = (response.data?.artists ?? [])
-          .filter((artist: SpotifyArtist | null | undefined) => Boolean(artist?.id))
-          .map((artist: SpotifyArtist) => {
-            const cloned = this.cloneArtist(artist);
-            this.setArtistDetailsCache(cloned);
-            return cloned;
-          });
+        let related: SpotifyArtist[] = [];
+        try {
+          related = await this.fetchRelatedArtists(node.id, signal);
+        } catch (error) {
+          const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+          // Apps Spotify has restricted are refused outright
+          if (status === 403 && hop === 1) {
+            return useLocalRecommendations();
+          }
+          if (status === 403 || status === 404) {
+            // An unknown or removed artist just has nothing to explore
+            if (hop === 1) {
+              seedsNotFound += 1;
+            }
+          } else if (isCancellationError(error)) {
+            cancelled = true;
+            break;
+          } else {
+            throw error;
+          }
+        }
+
+        for (const artist of related) {
+          if (!artist?.id || seedSet.has(artist.id)) {
+            continue;
+          }
+
+          let entry = reached.get(artist.id);
+          if (!entry) {
+            entry = { artist, seedDistances: new Map() };
+            reached.set(artist.id, entry);
+          }
 
-        this.setRelatedArtistsCache(artistId, fetched);
-        related = fetched;
+          for (const [seedId, distance] of node.seedDistances) {
+            if (distance === hop - 1 && !entry.seedDistances.has(seedId)) {
+              entry.seedDistances.set(seedId, hop);
+              reachedThisHop.add(artist.id);
+            }
+          }
+        }
+      }
+
+      // Some restricted apps get a 404 for every artist instead of a 403
+      if (hop === 1 && !cancelled && seedsNotFound === uniqueIds.length) {
+        return useLocalRecommendations();
+      }
+
+      frontier = Array.from(reached.entries())
+        .filter(([id]) => reachedThisHop.has(id))
+        .map(([id, entry]) => ({ id, seedDistances: entry.seedDistances }))
+        .sort(
+          (a, b) =>
+            this.scoreSeedDistances(b.seedDistances) - this.scoreSeedDistances(a.seedDistances)
+        )
+        .slice(0, MAX_RELATED_EXPANSIONS_PER_HOP);
+    }
+
+    if (!reached.size) {
+      return { artists: [], strategy: 'related-artists', cancelled };
+    }
+
+    let followedIds = new Set<string>();
+    if (!cancelled) {
+      try {
+        followedIds = await this.getFollowStatusForArtists(Array.from(reached.keys()), signal);
+      } catch (error) {
+        if (!isCancellationError(error)) {
+          throw error;
+        }
+        cancelled = true;
+      }
+    }
+
+    const seeds = await this.getArtistDetailsMap(uniqueIds, cancelled ? undefined : signal);
+
+    const artists: RelatedArtistCandidate[] = [];
+    for (const [artistId, { artist, seedDistances }] of reached) {
+      // A cancelled exploration only offers artists already known to be unfollowed
+      const isUnfollowed = cancelled
+        ? this.getCachedFollowStatus(artistId) === false
+        : !followedIds.has(artistId);
+      if (!isUnfollowed) {
+        continue;
+      }
+
+      const connections = Array.from(seedDistances.entries())
+        .map(([seedId, distance]) => ({
+          seedId,
+          seedName: seeds.get(seedId)?.name ?? 'an unknown artist',
+          distance,
+        }))
+        .sort((a, b) => a.distance - b.distance || a.seedName.localeCompare(b.seedName));
+
+      artists.push({
+        ...this.cloneArtist(artist),
+        score: this.scoreSeedDistances(seedDistances),
+        distance: connections[0].distance,
+        connections,
+        explanation: this.describeRelatedConnections(connections),
+      });
+    }
+
+    artists.sort((a, b) => {
+      if (b.score !== a.score) {
+        return b.score - a.score;
+      }
+      const popularityDiff = (b.popularity ?? 0) - (a.popularity ?? 0);
+      if (popularityDiff !== 0) {
+        return popularityDiff;
+      }
+      return a.name.localeCompare(b.name);
+    });
+
+    return { artists, strategy: 'related-artists', cancelled };
+  }
+
+  /**
+   * Recommends artists from data the app already holds, for when Spotify refuses
+   * /related-artists: genre overlap with each seed (from cached artist details) plus
+   * the share of the seed's analyzed playlists the candidate also appears on.
+   */
+  private async recommendFromLocalData(
+    seedIds: string[],
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<GetRelatedArtistsResponse> {
+    const strategy = 'genres-and-playlists';
+    try {
+      onProgress?.({ current: 0, total: 3, message: 'Comparing genres and playlists...' });
+      const seeds = await this.getArtistDetailsMap(seedIds, signal);
+      const seedSet = new Set(seedIds);
+
+      const sourceSets: Array<Set<string>> = [];
+      for (const entry of this.sourceArtistsCache.values()) {
+        if (this.isCacheEntryValid(entry.timestamp, CACHE_TTL_SOURCE_ARTISTS_MS)) {
+          sourceSets.push(new Set(entry.artistIds));
+        }
       }
 
-      for (const artist of related) {
-        if (!artist?.id || relatedMap.has(artist.id) || seedSet.has(artist.id)) {
+      // Candidates are every artist with cached details or seen on an analyzed source
+      const candidateIds = new Set<string>(this.artistDetailsCache.keys());
+      for (const sourceSet of sourceSets) {
+        for (const artistId of sourceSet) {
+          candidateIds.add(artistId);
+        }
+      }
+
+      const matches = new Map<
+        string,
+        { score: number; bySeed: Map<string, { sharedGenres: string[]; sharedSources: number }> }
+      >();
+      for (const seedId of seedIds) {
+        const seedGenres = new Set(seeds.get(seedId)?.genres ?? []);
+        const seedSources = sourceSets.filter((sourceSet) => sourceSet.has(seedId));
+
+        for (const candidateId of candidateIds) {
+          if (seedSet.has(candidateId)) {
+            continue;
+          }
+
+          const candidateGenres = this.getCachedArtistDetails(candidateId)?.genres ?? [];
+          const sharedGenres = candidateGenres.filter((genre) => seedGenres.has(genre));
+          const genreScore = sharedGenres.length
+            ? sharedGenres.length / new Set([...seedGenres, ...candidateGenres]).size
+            : 0;
+          const sharedSources = seedSources.filter((sourceSet) => sourceSet.has(candidateId)).length;
+          const playlistScore = seedSources.length ? sharedSources / seedSources.length : 0;
+
+          if (genreScore + playlistScore === 0) {
+            continue;
+          }
+
+          let match = matches.get(candidateId);
+          if (!match) {
+            match = { score: 0, bySeed: new Map() };
+            matches.set(candidateId, match);
+          }
+          match.score += genreScore + playlistScore;
+          match.bySeed.set(seedId, { sharedGenres, sharedSources });
+        }
+      }
+
+      const ranked = Array.from(matches.entries())
+        .sort(([, a], [, b]) => b.score - a.score)
+        .slice(0, MAX_FALLBACK_CANDIDATES);
+      if (!ranked.length) {
+        return { artists: [], strategy };
+      }
+
+      onProgress?.({ current: 1, total: 3, message: 'Loading artist details...' });
+      const details = await this.getArtistDetailsMap(
+        ranked.map(([candidateId]) => candidateId),
+        signal
+      );
+
+      onProgress?.({ current: 2, total: 3, message: 'Checking which artists you follow...' });
+      const followedIds = await this.getFollowStatusForArtists(
+        ranked.map(([candidateId]) => candidateId),
+        signal
+      );
+
+      const artists: RelatedArtistCandidate[] = [];
+      for (const [candidateId, match] of ranked) {
+        const artist = details.get(candidateId);
+        if (!artist || followedIds.has(candidateId)) {
           continue;
         }
 
-        relatedMap.set(artist.id, this.cloneArtist(artist));
+        const seedName = (seedId: string) => seeds.get(seedId)?.name ?? 'an unknown artist';
+        const genreSeeds = Array.from(match.bySeed.entries()).filter(
+          ([, seedMatch]) => seedMatch.sharedGenres.length > 0
+        );
+        const playlistSeeds = Array.from(match.bySeed.entries()).filter(
+          ([, seedMatch]) => seedMatch.sharedSources > 0
+        );
+        const sharedGenres = Array.from(
+          new Set(genreSeeds.flatMap(([, seedMatch]) => seedMatch.sharedGenres))
+        );
+
+        const reasons: string[] = [];
+        if (genreSeeds.length > 0) {
+          reasons.push(
+            `shares ${this.formatNameList(sharedGenres.slice(0, 3))} with ${this.formatNameList(
+              genreSeeds.map(([seedId]) => seedName(seedId))
+            )}`
+          );
+        }
+        if (playlistSeeds.length > 0) {
+          reasons.push(
+            `appears alongside ${this.formatNameList(
+              playlistSeeds.map(([seedId]) => seedName(seedId))
+            )} on playlists you analyzed`
+          );
+        }
+
+        artists.push({
+          ...artist,
+          score: match.score,
+          // Local matches have no hop structure, so every connection counts as direct
+          distance: 1,
+          connections: Array.from(match.bySeed.keys()).map((seedId) => ({
+            seedId,
+            seedName: seedName(seedId),
+            distance: 1,
+          })),
+          explanation: reasons.join('; ').replace(/^./, (first) => first.toUpperCase()),
+        });
+      }
+
+      return { artists, strategy };
+    } catch (error) {
+      if (!isCancellationError(error)) {
+        throw error;
       }
+      return { artists: [], strategy, cancelled: true };
     }
+  }
 
-    if (!relatedMap.size) {
-      return [];
+  private async fetchRelatedArtists(
+    artistId: string,
+    signal?: AbortSignal
+  ): Promise<SpotifyArtist[]> {
+    const cached = this.getCachedRelatedArtists(artistId);
+    if (cached) {
+      return cached;
     }
 
-    const candidateArtists = Array.from(relatedMap.values());
-    const followedIds = await this.getFollowStatusForArtists(
-      candidateArtists.map((artist) => artist.id)
+    const response = await this.apiCallWithRetry(
+      (requestSignal) =>
+        this.api.get(`/artists/${artistId}/related-artists`, { signal: requestSignal }),
+      { signal, endpoint: 'related-artists' }
     );
 
-    return candidateArtists
-      .filter((artist) => !followedIds.has(artist.id))
-      .sort((a, b) => {
-        const popularityDiff = (b.popularity ?? 0) - (a.popularity ?? 0);
-        if (popularityDiff !== 0) {
-          return popularityDiff;
+    const fetched: SpotifyArtist[] = (response.data?.artists ?? [])
+      .filter((artist: SpotifyArtist | null | undefined) => Boolean(artist?.id))
+      .map((artist: SpotifyArtist) => {
+        const cloned = this.cloneArtist(artist);
+        this.setArtistDetailsCache(cloned);
+        return cloned;
+      });
+
+    this.setRelatedArtistsCache(artistId, fetched);
+    return fetched;
+  }
+
+  private scoreSeedDistances(seedDistances: Map<string, number>): number {
+    let score = 0;
+    for (const distance of seedDistances.values()) {
+      if (distance > 0) {
+        score += 1 / distance;
+      }
+    }
+    return score;
+  }
+
+  /**
+   * Builds "Related to A, B and C; 2 hops from D" from a candidate's seed connections.
+   */
+  private describeRelatedConnections(
+    connections: RelatedArtistCandidate['connections']
+  ): string {
+    const namesByDistance = new Map<number, string[]>();
+    for (const { seedName, distance } of connections) {
+      namesByDistance.set(distance, [...(namesByDistance.get(distance) ?? []), seedName]);
+    }
+
+    return Array.from(namesByDistance.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([distance, names]) =>
+        distance === 1
+          ? `Related to ${this.formatNameList(names)}`
+          : `${distance} hops from ${this.formatNameList(names)}`
+      )
+      .join('; ');
+  }
+
+  private formatNameList(names: string[]): string {
+    return names.length <= 1
+      ? names.join('')
+      : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+  }
+
+  /**
+   * Resolves artist details from the cache, fetching only the ones it lacks.
+   * Artists that cannot be fetched are left out rather than failing the caller.
+   */
+  private async getArtistDetailsMap(
+    artistIds: string[],
+    signal?: AbortSignal
+  ): Promise<Map<string, SpotifyArtist>> {
+    const details = new Map<string, SpotifyArtist>();
+    const missing: string[] = [];
+    for (const artistId of artistIds) {
+      const cached = this.getCachedArtistDetails(artistId);
+      if (cached) {
+        details.set(artistId, cached);
+      } else {
+        missing.push(artistId);
+      }
+    }
+
+    try {
+      for (let i = 0; i < missing.length; i += 50) {
+        const batch = missing.slice(i, i + 50);
+        const response = await this.apiCallWithRetry(
+          (requestSignal) =>
+            this.api.get('/artists', { params: { ids: batch.join(',') }, signal: requestSignal }),
+          { signal, endpoint: 'artists' }
+        );
+
+        for (const artist of response.data.artists ?? []) {
+          if (artist?.id) {
+            const fetched = this.cloneArtist(artist as SpotifyArtist);
+            this.setArtistDetailsCache(fetched);
+            details.set(artist.id, fetched);
+          }
         }
-        return a.name.localeCompare(b.name);
-      })
-      .map((artist) => this.cloneArtist(artist));
+      }
+    } catch (error) {
+      console.warn('Could not load artist details:', error);
+    }
+
+    return details;
   }
 
-  private async getFollowedArtists(limit?: number): Promise<SpotifyArtist[]> {
+  private async getFollowedArtists(
+    limit?: number,
+    signal?: AbortSignal
+  ): Promise<SpotifyArtist[]> {
     if (!limit) {
       if (
         this.followedArtistsCache &&
@@ -649,10 +1704,13 @@ export class SpotifyService {
     let after: string | undefined;
 
     while (true) {
-      const response = await this.apiCallWithRetry(() =>
-        this.api.get('/me/following', {
-          params: { type: 'artist', limit: 50, after },
-        })
+      const response = await this.apiCallWithRetry(
+        (requestSignal) =>
+          this.api.get('/me/following', {
+            params: { type: 'artist', limit: 50, after },
+            signal: requestSignal,
+          }),
+        { signal, endpoint: 'follow', priority: 'bulk' }
       );
 
       artists.push(...(response.data.artists?.items ?? []));
@@ -673,86 +1731,513 @@ export class SpotifyService {
       after = response.data.artists.cursors?.after;
     }
 
-    this.followedArtistsCache = {
-      artists: artists.map((artist) => this.cloneArtist(artist)),
-      timestamp: Date.now(),
-    };
+    this.followedArtistsCache = {
+      artists: artists.map((artist) => this.cloneArtist(artist)),
+      timestamp: Date.now(),
+    };
+    this.schedulePersist();
+
+    return artists.map((artist) => this.cloneArtist(artist));
+  }
+
+  async followArtistsBulk(
+    artistIds: string[],
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<FollowArtistsResponse> {
+    const result = await this.setFollowStatusInChunks(artistIds, true, onProgress, signal);
+
+    return {
+      followedCount: result.succeededIds.length,
+      failedCount: result.failedArtists.length,
+      failedArtists: result.failedArtists,
+      failureReasons: result.failureReasons,
+      skippedArtists: result.skippedArtists,
+      cancelled: result.skippedArtists.length > 0,
+    };
+  }
+
+  async unfollowArtistsBulk(
+    artistIds: string[],
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<UnfollowArtistsResponse> {
+    const result = await this.setFollowStatusInChunks(artistIds, false, onProgress, signal);
+
+    return {
+      unfollowedCount: result.succeededIds.length,
+      failedCount: result.failedArtists.length,
+      failedArtists: result.failedArtists,
+      failureReasons: result.failureReasons,
+      skippedArtists: result.skippedArtists,
+      cancelled: result.skippedArtists.length > 0,
+    };
+  }
+
+  /**
+   * Follows or unfollows artists through /me/following in CHUNK_SIZE_FOLLOW batches,
+   * pausing between chunks. A refused chunk is bisected down to single artists, and the
+   * outcome is checked with /me/following/contains afterwards. Artists left unprocessed
+   * by a cancel are reported as skipped.
+   */
+  private async setFollowStatusInChunks(
+    artistIds: string[],
+    follow: boolean,
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<{
+    succeededIds: string[];
+    failedArtists: string[];
+    failureReasons: Record<string, string>;
+    skippedArtists: string[];
+  }> {
+    const failureReasons: Record<string, string> = {};
+    const skippedArtists: string[] = [];
+    let succeededIds: string[] = [];
+    const totalChunks = Math.ceil(artistIds.length / CHUNK_SIZE_FOLLOW);
+    const verb = follow ? 'Following' : 'Unfollowing';
+
+    await this.ensureCacheScope();
+
+    for (let i = 0; i < artistIds.length; i += CHUNK_SIZE_FOLLOW) {
+      const chunk = artistIds.slice(i, i + CHUNK_SIZE_FOLLOW);
+      const chunkNum = Math.floor(i / CHUNK_SIZE_FOLLOW) + 1;
+
+      if (signal?.aborted) {
+        skippedArtists.push(...artistIds.slice(i));
+        break;
+      }
+
+      onProgress?.({
+        current: chunkNum,
+        total: totalChunks,
+        message: `${verb} artists (chunk ${chunkNum}/${totalChunks})...`,
+      });
+
+      try {
+        await this.requestFollowStatusChange(chunk, follow, signal);
+        succeededIds.push(...chunk);
+      } catch (error) {
+        if (isCancellationError(error)) {
+          skippedArtists.push(...artistIds.slice(i));
+          break;
+        }
+        console.error(`Failed to ${follow ? 'follow' : 'unfollow'} chunk:`, error);
+
+        onProgress?.({
+          current: chunkNum,
+          total: totalChunks,
+          message: `Retrying chunk ${chunkNum}/${totalChunks} in smaller batches...`,
+        });
+        const retried = {
+          succeededIds: [] as string[],
+          failureReasons: {} as Record<string, string>,
+          skippedIds: [] as string[],
+        };
+        await this.bisectFollowChunk(chunk, follow, error, retried, signal);
+        succeededIds.push(...retried.succeededIds);
+        Object.assign(failureReasons, retried.failureReasons);
+        // The rest of a cancelled run is picked up at the top of the next iteration
+        skippedArtists.push(...retried.skippedIds);
+      }
+
+      if (i + CHUNK_SIZE_FOLLOW < artistIds.length) {
+        try {
+          await this.delay(2000, signal);
+        } catch {
+          // Cancellation is picked up at the top of the next iteration.
+        }
+      }
+    }
+
+    // Spotify occasionally applies a request that errored, or reports success for one it
+    // dropped, so the outcome is confirmed before it is reported. A failed unfollow is not
+    // rescued, since "not followed" is also the answer for IDs Spotify does not know.
+    const attemptedIds = follow
+      ? [...succeededIds, ...Object.keys(failureReasons)]
+      : [...succeededIds];
+    if (attemptedIds.length && !signal?.aborted) {
+      try {
+        const statuses = await this.fetchFollowStatuses(attemptedIds, signal);
+        const confirmedIds: string[] = [];
+        for (const artistId of attemptedIds) {
+          const status = statuses.get(artistId);
+          if (status === follow) {
+            confirmedIds.push(artistId);
+            delete failureReasons[artistId];
+          } else if (status === undefined) {
+            // No answer for this artist, so keep the outcome of the request itself
+            if (!failureReasons[artistId]) {
+              confirmedIds.push(artistId);
+            }
+          } else if (!failureReasons[artistId]) {
+            failureReasons[artistId] = 'Spotify accepted the request but did not apply it';
+          }
+        }
+        succeededIds = confirmedIds;
+      } catch (error) {
+        console.warn('Could not confirm follow status changes:', error);
+      }
+    }
+
+    // Artists in an aborted chunk may or may not have been updated, so drop their cached status.
+    for (const artistId of skippedArtists) {
+      this.followStatusCache.delete(artistId);
+    }
+
+    if (succeededIds.length || skippedArtists.length) {
+      const timestamp = Date.now();
+      for (const artistId of succeededIds) {
+        this.followStatusCache.set(artistId, { isFollowed: follow, timestamp });
+      }
+      this.followedArtistsCache = null;
+      this.followedArtistsCacheByLimit.clear();
+      this.schedulePersist();
+    }
+
+    const failedArtists = artistIds.filter((artistId) => failureReasons[artistId]);
+    return { succeededIds, failedArtists, failureReasons, skippedArtists };
+  }
+
+  private async requestFollowStatusChange(
+    artistIds: string[],
+    follow: boolean,
+    signal?: AbortSignal,
+    maxRetries?: number
+  ): Promise<void> {
+    await this.apiCallWithRetry(
+      (requestSignal) =>
+        this.api.request({
+          method: follow ? 'PUT' : 'DELETE',
+          url: '/me/following',
+          params: { type: 'artist', ids: artistIds.join(',') },
+          signal: requestSignal,
+        }),
+      { signal, endpoint: 'follow', priority: 'bulk', maxRetries }
+    );
+  }
+
+  /**
+   * Retries a refused follow chunk in halves, down to single artists, so one bad ID no
+   * longer fails the whole chunk. A rate limit is not split further since smaller
+   * requests would only run into it again.
+   */
+  private async bisectFollowChunk(
+    artistIds: string[],
+    follow: boolean,
+    error: unknown,
+    result: {
+      succeededIds: string[];
+      failureReasons: Record<string, string>;
+      skippedIds: string[];
+    },
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (artistIds.length === 1 || error instanceof RateLimitExceededError) {
+      const reason = this.describeFollowFailure(error);
+      for (const artistId of artistIds) {
+        result.failureReasons[artistId] = reason;
+      }
+      return;
+    }
+
+    const middle = Math.ceil(artistIds.length / 2);
+    for (const half of [artistIds.slice(0, middle), artistIds.slice(middle)]) {
+      try {
+        // Failures are expected here, so fewer retries than the first attempt
+        await this.requestFollowStatusChange(half, follow, signal, 2);
+        result.succeededIds.push(...half);
+      } catch (halfError) {
+        if (isCancellationError(halfError)) {
+          result.skippedIds.push(...half);
+          continue;
+        }
+        await this.bisectFollowChunk(half, follow, halfError, result, signal);
+      }
+    }
+  }
+
+  private describeFollowFailure(error: unknown): string {
+    if (axios.isAxiosError(error) && error.response) {
+      const data = error.response.data as { error?: { message?: string } } | undefined;
+      const apiMessage = data?.error?.message;
+      return apiMessage
+        ? `Spotify refused the request (${error.response.status}): ${apiMessage}`
+        : `Spotify refused the request (${error.response.status})`;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  async listFollowedArtists(refresh = false, signal?: AbortSignal): Promise<FollowedArtist[]> {
+    await this.ensureCacheScope();
+    if (refresh) {
+      this.followedArtistsCache = null;
+      this.followedArtistsCacheByLimit.clear();
+    }
+
+    const artists = await this.getFollowedArtists(undefined, signal);
+    return artists.map((artist) => ({
+      ...artist,
+      lastReleaseDate: this.getKnownLastReleaseDate(artist.id) ?? null,
+    }));
+  }
+
+  /**
+   * Looks up the newest album or single of each artist. Cached dates and releases seen by
+   * earlier scans are reused; everything else costs one request per group and artist.
+   */
+  async getLastReleaseDates(
+    artistIds: string[],
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<GetLastReleaseDatesResponse> {
+    const lastReleaseDates: Record<string, string | null> = {};
+    const toFetch: string[] = [];
+
+    try {
+      await this.ensureCacheScope();
+      for (const artistId of artistIds) {
+        const known = this.getKnownLastReleaseDate(artistId);
+        if (known !== undefined) {
+          lastReleaseDates[artistId] = known;
+        } else {
+          toFetch.push(artistId);
+        }
+      }
+
+      const market = await this.getMarket();
+      const batchSize = 5;
+      for (let batchStart = 0; batchStart < toFetch.length; batchStart += batchSize) {
+        throwIfCancelled(signal);
+        const batch = toFetch.slice(batchStart, batchStart + batchSize);
+        onProgress?.({
+          current: batchStart + batch.length,
+          total: toFetch.length,
+          message: `Looking up latest releases (${batchStart + batch.length}/${toFetch.length})...`,
+        });
+
+        const results = await Promise.all(
+          batch.map((artistId) => this.fetchLastReleaseDate(artistId, market, signal))
+        );
+        batch.forEach((artistId, index) => {
+          lastReleaseDates[artistId] = results[index];
+          this.lastReleaseCache.set(artistId, { releaseDate: results[index], timestamp: Date.now() });
+        });
+        this.schedulePersist();
+      }
+    } catch (error) {
+      if (!isCancellationError(error)) {
+        throw error;
+      }
+      return { lastReleaseDates, cancelled: true };
+    }
+
+    return { lastReleaseDates, cancelled: false };
+  }
+
+  /**
+   * Flags followed artists whose newest album or single is older than `monthsQuiet`
+   * months, or who have none at all. Newest first by last release, never-released last.
+   */
+  async findStaleArtists(
+    monthsQuiet: number,
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<FindStaleArtistsResponse> {
+    if (!Number.isInteger(monthsQuiet) || monthsQuiet < 1) {
+      throw new Error('Months without a release must be a whole number of at least 1');
+    }
+
+    let artists: SpotifyArtist[];
+    try {
+      await this.ensureCacheScope();
+      onProgress?.({ current: 0, total: 1, message: 'Fetching followed artists...' });
+      artists = await this.getFollowedArtists(undefined, signal);
+    } catch (error) {
+      if (!isCancellationError(error)) {
+        throw error;
+      }
+      return { staleArtists: [], totalArtistsChecked: 0, monthsQuiet, cancelled: true };
+    }
+
+    const { lastReleaseDates, cancelled } = await this.getLastReleaseDates(
+      artists.map((artist) => artist.id),
+      onProgress,
+      signal
+    );
+
+    const now = new Date();
+    const threshold = new Date(now);
+    threshold.setMonth(threshold.getMonth() - monthsQuiet);
+
+    const staleArtists: StaleArtist[] = [];
+    for (const artist of artists) {
+      if (!(artist.id in lastReleaseDates)) {
+        continue;
+      }
+
+      const lastReleaseDate = lastReleaseDates[artist.id];
+      if (lastReleaseDate === null) {
+        staleArtists.push({ ...artist, lastReleaseDate, monthsSinceRelease: null });
+        continue;
+      }
+
+      // Judge fuzzy dates by the end of their month or year so nobody is flagged early
+      const range = this.parseReleaseDate(lastReleaseDate, this.getDatePrecision(lastReleaseDate));
+      if (range && range.end < threshold) {
+        const monthsSinceRelease =
+          (now.getFullYear() - range.end.getFullYear()) * 12 +
+          (now.getMonth() - range.end.getMonth());
+        staleArtists.push({ ...artist, lastReleaseDate, monthsSinceRelease });
+      }
+    }
+
+    staleArtists.sort(
+      (a, b) => (a.monthsSinceRelease ?? Infinity) - (b.monthsSinceRelease ?? Infinity)
+    );
 
-    return artists.map((artist) => this.cloneArtist(artist));
+    return {
+      staleArtists,
+      totalArtistsChecked: Object.keys(lastReleaseDates).length,
+      monthsQuiet,
+      cancelled: Boolean(cancelled),
+    };
   }
 
-  async followArtistsBulk(
-    artistIds: string[],
-    onProgress?: (progress: ProgressUpdate) => void
-  ): Promise<FollowArtistsResponse> {
-    let followedCount = 0;
-    const failedArtists: string[] = [];
-    const succeededIds: string[] = [];
-    const totalChunks = Math.ceil(artistIds.length / CHUNK_SIZE_FOLLOW);
-
-    for (let i = 0; i < artistIds.length; i += CHUNK_SIZE_FOLLOW) {
-      const chunk = artistIds.slice(i, i + CHUNK_SIZE_FOLLOW);
-      const chunkNum = Math.floor(i / CHUNK_SIZE_FOLLOW) + 1;
+  private getDatePrecision(releaseDate: string): SpotifyAlbum['release_date_precision'] {
+    const parts = releaseDate.split('-').length;
+    return parts === 1 ? 'year' : parts === 2 ? 'month' : 'day';
+  }
 
-      onProgress?.({
-        current: chunkNum,
-        total: totalChunks,
-        message: `Following artists (chunk ${chunkNum}/${totalChunks})...`,
-      });
+  /**
+   * Returns the cached last release date, falling back to what scans have recorded.
+   * `undefined` means nothing is known yet, while `null` means the artist has no releases.
+   */
+  private getKnownLastReleaseDate(artistId: string): string | null | undefined {
+    const cached = this.lastReleaseCache.get(artistId);
+    if (cached && this.isCacheEntryValid(cached.timestamp, CACHE_TTL_LAST_RELEASE_MS)) {
+      return cached.releaseDate;
+    }
 
-      try {
-        await this.apiCallWithRetry(() =>
-          this.api.put('/me/following', null, {
-            params: { type: 'artist', ids: chunk.join(',') },
-          })
-        );
-        followedCount += chunk.length;
-        succeededIds.push(...chunk);
-      } catch (error) {
-        failedArtists.push(...chunk);
-        console.error('Failed to follow chunk:', error);
+    let newest: ReleaseWithArtist | null = null;
+    for (const [key, watermark] of this.scanWatermarks) {
+      if (
+        !key.startsWith(`${artistId}:`) ||
+        !this.isCacheEntryValid(watermark.lastScannedAt, CACHE_TTL_LAST_RELEASE_MS)
+      ) {
+        continue;
       }
-
-      if (i + CHUNK_SIZE_FOLLOW < artistIds.length) {
-        await this.delay(2000);
+      for (const release of watermark.knownReleases) {
+        if (
+          release.artist_role === 'primary' &&
+          (!newest || this.getReleaseSortTime(release) > this.getReleaseSortTime(newest))
+        ) {
+          newest = release;
+        }
       }
     }
 
-    if (succeededIds.length) {
-      const timestamp = Date.now();
-      for (const artistId of succeededIds) {
-        this.followStatusCache.set(artistId, { isFollowed: true, timestamp });
+    return newest ? newest.release_date : undefined;
+  }
+
+  private async fetchLastReleaseDate(
+    artistId: string,
+    market: string,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    let newest: SpotifyAlbum | null = null;
+
+    // Spotify lists each group newest first, so the first item of each group is enough
+    for (const group of ['album', 'single']) {
+      const response = await this.apiCallWithRetry(
+        (requestSignal) =>
+          this.api.get(`/artists/${artistId}/albums`, {
+            params: { include_groups: group, limit: 1, market },
+            signal: requestSignal,
+          }),
+        { signal, endpoint: 'artist-albums', priority: 'bulk' }
+      );
+
+      const latest = response.data.items?.[0] as SpotifyAlbum | undefined;
+      const latestRange = latest
+        ? this.parseReleaseDate(latest.release_date, latest.release_date_precision)
+        : null;
+      const newestRange = newest
+        ? this.parseReleaseDate(newest.release_date, newest.release_date_precision)
+        : null;
+      if (latest && latestRange && (!newestRange || latestRange.start > newestRange.start)) {
+        newest = latest;
       }
-      this.followedArtistsCache = null;
-      this.followedArtistsCacheByLimit.clear();
     }
 
-    return {
-      followedCount,
-      failedCount: failedArtists.length,
-      failedArtists,
-    };
+    return newest ? newest.release_date : null;
   }
 
   async scanRecentReleases(
     daysBack: number,
     maxArtists?: number,
-    onProgress?: (progress: ProgressUpdate) => void
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal,
+    extraMarkets: string[] = [],
+    filters?: ReleaseFilters,
+    includeGroups: OptionalReleaseGroup[] = [],
+    onBatch?: (batch: ScanReleasesBatch) => void
   ): Promise<ScanReleasesResponse> {
     const sinceDate = new Date();
     sinceDate.setDate(sinceDate.getDate() - daysBack);
 
     onProgress?.({ current: 0, total: 1, message: 'Fetching followed artists...' });
-    const artists = await this.getFollowedArtists(maxArtists);
+    let artists: SpotifyArtist[];
+    let markets: string[];
+    try {
+      await this.ensureCacheScope();
+      const primaryMarket = await this.getMarket();
+      markets = Array.from(
+        new Set([primaryMarket, ...extraMarkets.map((market) => market.toUpperCase())])
+      );
+      artists = await this.getFollowedArtists(maxArtists, signal);
+    } catch (error) {
+      if (!isCancellationError(error)) {
+        throw error;
+      }
+      return {
+        releases: [],
+        newReleases: [],
+        previousScanAt: null,
+        totalArtistsChecked: 0,
+        markets: [],
+        filteredOut: 0,
+        cancelled: true,
+      };
+    }
 
-    const artistsToCheck = maxArtists && maxArtists > 0 ? artists.slice(0, maxArtists) : artists;
+    const artistsToCheck = (
+      maxArtists && maxArtists > 0 ? artists.slice(0, maxArtists) : artists
+    ).filter((artist) => !isArtistExcluded(filters, artist.id));
+
+    let previousScanAt: number | null = null;
+    for (const artist of artistsToCheck) {
+      const lastScannedAt = this.scanWatermarks.get(
+        this.scanWatermarkKey(artist.id, markets[0])
+      )?.lastScannedAt;
+      if (lastScannedAt && (!previousScanAt || lastScannedAt > previousScanAt)) {
+        previousScanAt = lastScannedAt;
+      }
+    }
 
-    const releases: ReleaseWithArtist[] = [];
-    const seenAlbumIds = new Set<string>();
+    const releasesById = new Map<string, ReleaseWithArtist>();
+    const newReleaseIds = new Set<string>();
+    const filteredOutIds = new Set<string>();
     const startTime = Date.now();
     const batchSize = 5;
+    let artistsChecked = 0;
+    let rateLimited = false;
 
     for (let batchStart = 0; batchStart < artistsToCheck.length; batchStart += batchSize) {
+      if (signal?.aborted) {
+        break;
+      }
+
       const batchEnd = Math.min(batchStart + batchSize, artistsToCheck.length);
       const batch = artistsToCheck.slice(batchStart, batchEnd);
 
@@ -769,40 +2254,155 @@ export class SpotifyService {
       });
 
       const batchResults = await Promise.allSettled(
-        batch.map((artist) => this.getRecentReleasesForArtist(artist.id, artist.name, sinceDate))
+        batch.map((artist) =>
+          this.getRecentReleasesAcrossMarkets(artist, sinceDate, markets, includeGroups, signal)
+        )
       );
 
+      const changedReleases = new Map<string, ReleaseWithArtist>();
       for (const result of batchResults) {
         if (result.status === 'fulfilled') {
-          for (const release of result.value) {
-            if (!seenAlbumIds.has(release.id)) {
-              seenAlbumIds.add(release.id);
-              releases.push(release);
+          artistsChecked += 1;
+          for (const release of result.value.newReleases) {
+            newReleaseIds.add(release.id);
+          }
+          for (const release of result.value.releases) {
+            // A release shared by two followed artists is listed under the one who leads it
+            const existing = releasesById.get(release.id);
+            if (!existing || (existing.artist_role !== 'primary' && release.artist_role === 'primary')) {
+              releasesById.set(release.id, release);
+              changedReleases.set(release.id, release);
             }
           }
-        } else {
+        } else if (!isCancellationError(result.reason)) {
+          artistsChecked += 1;
+          if (result.reason instanceof RateLimitExceededError) {
+            rateLimited = true;
+          }
           console.error('Error fetching releases:', result.reason);
         }
       }
+
+      if (onBatch) {
+        const batchFiltered = filterReleases(Array.from(changedReleases.values()), filters);
+        const keptIds = new Set(batchFiltered.releases.map((release) => release.id));
+        for (const releaseId of changedReleases.keys()) {
+          if (keptIds.has(releaseId)) {
+            filteredOutIds.delete(releaseId);
+          } else {
+            filteredOutIds.add(releaseId);
+          }
+        }
+        onBatch({
+          releases: batchFiltered.releases,
+          newReleaseIds: batchFiltered.releases
+            .filter((release) => newReleaseIds.has(release.id))
+            .map((release) => release.id),
+          filteredOut: filteredOutIds.size,
+          artistsChecked,
+          totalArtists: artistsToCheck.length,
+        });
+      }
     }
 
-    releases.sort((a, b) => {
-      return new Date(b.release_date).getTime() - new Date(a.release_date).getTime();
-    });
+    const filtered = filterReleases(Array.from(releasesById.values()), filters);
+    filtered.releases.sort((a, b) => this.getReleaseSortTime(b) - this.getReleaseSortTime(a));
+
+    return {
+      releases: filtered.releases,
+      newReleases: filtered.releases.filter((release) => newReleaseIds.has(release.id)),
+      previousScanAt,
+      totalArtistsChecked: artistsChecked,
+      markets,
+      filteredOut: filtered.filteredOut,
+      cancelled: Boolean(signal?.aborted),
+      rateLimited,
+    };
+  }
+
+  /**
+   * Merges an artist's releases from several markets. A release only counts as new
+   * when none of the scanned markets had seen it before.
+   */
+  private async getRecentReleasesAcrossMarkets(
+    artist: SpotifyArtist,
+    sinceDate: Date,
+    markets: string[],
+    includeGroups: OptionalReleaseGroup[],
+    signal?: AbortSignal
+  ): Promise<{ releases: ReleaseWithArtist[]; newReleases: ReleaseWithArtist[] }> {
+    const releases: ReleaseWithArtist[] = [];
+    const newReleases: ReleaseWithArtist[] = [];
+    const previouslySeenIds = new Set<string>();
+
+    for (const market of markets) {
+      const result = await this.getRecentReleasesForArtist(
+        artist.id,
+        artist.name,
+        sinceDate,
+        market,
+        includeGroups,
+        signal
+      );
+      const newIds = new Set(result.newReleases.map((release) => release.id));
+      for (const release of result.releases) {
+        if (!newIds.has(release.id)) {
+          previouslySeenIds.add(release.id);
+        }
+      }
+      releases.push(...result.releases);
+      newReleases.push(...result.newReleases);
+    }
 
     return {
       releases,
-      totalArtistsChecked: artistsToCheck.length,
+      newReleases: newReleases.filter((release) => !previouslySeenIds.has(release.id)),
     };
   }
 
+  private scanWatermarkKey(artistId: string, market: string): string {
+    return `${artistId}:${market}`;
+  }
+
+  private getArtistRole(albumGroup: ScannedAlbumGroup): ReleaseArtistRole {
+    return albumGroup === 'appears_on' || albumGroup === 'compilation' ? albumGroup : 'primary';
+  }
+
+  /**
+   * Walks an artist's album/single pages newest-first. When a previous scan already covers
+   * the requested window, paging stops at the first release that scan saw and the rest of
+   * the window is served from the stored watermark. Groups scanned for the first time
+   * are fetched in full and never flagged as new, since nothing was compared against them.
+   */
   private async getRecentReleasesForArtist(
     artistId: string,
     artistName: string,
-    sinceDate: Date
-  ): Promise<ReleaseWithArtist[]> {
-    const releases: ReleaseWithArtist[] = [];
-    const albumTypes: Array<'album' | 'single'> = ['album', 'single'];
+    sinceDate: Date,
+    market: string,
+    includeGroups: OptionalReleaseGroup[],
+    signal?: AbortSignal
+  ): Promise<{ releases: ReleaseWithArtist[]; newReleases: ReleaseWithArtist[] }> {
+    const watermarkKey = this.scanWatermarkKey(artistId, market);
+    const watermark = this.scanWatermarks.get(watermarkKey);
+    const isIncremental = Boolean(watermark && watermark.coveredSince <= sinceDate.getTime());
+    const seenIds = new Set<string>([
+      ...(watermark?.knownReleases.map((release) => release.id) ?? []),
+      ...Object.values(watermark?.newestReleaseIds ?? {}),
+    ]);
+
+    const policy: FuzzyDatePolicy = this.settingsService?.get().fuzzyDatePolicy ?? 'overlap';
+    // Holds everything that could match under any policy so a policy change needs no refetch
+    const freshReleases: ReleaseWithArtist[] = [];
+    const newestReleaseIds: Partial<Record<ScannedAlbumGroup, string>> = {
+      ...watermark?.newestReleaseIds,
+    };
+    const albumTypes: ScannedAlbumGroup[] = ['album', 'single', ...includeGroups];
+    const allowedRoles = new Set(albumTypes.map((albumType) => this.getArtistRole(albumType)));
+    const unscannedRoles = new Set(
+      albumTypes
+        .filter((albumType) => !watermark?.newestReleaseIds[albumType])
+        .map((albumType) => this.getArtistRole(albumType))
+    );
 
     for (const albumType of albumTypes) {
       let offset = 0;
@@ -810,38 +2410,48 @@ export class SpotifyService {
       let shouldContinue = true;
 
       for (let page = 0; page < 2 && shouldContinue; page++) {
-        const response = await this.apiCallWithRetry(() =>
-          this.api.get(`/artists/${artistId}/albums`, {
-            params: {
-              include_groups: albumType,
-              limit,
-              offset,
-              market: 'US',
-            },
-          })
+        const response = await this.apiCallWithRetry(
+          (requestSignal) =>
+            this.api.get(`/artists/${artistId}/albums`, {
+              params: {
+                include_groups: albumType,
+                limit,
+                offset,
+                market,
+              },
+              signal: requestSignal,
+            }),
+          { signal, endpoint: 'artist-albums', priority: 'bulk' }
         );
 
         const items = response.data.items;
 
+        if (page === 0 && items.length > 0) {
+          newestReleaseIds[albumType] = items[0].id;
+        }
+
         for (const album of items) {
-          const releaseDate = this.parseReleaseDate(
+          if (isIncremental && seenIds.has(album.id)) {
+            shouldContinue = false;
+            break;
+          }
+
+          const releaseRange = this.parseReleaseDate(
             album.release_date,
             album.release_date_precision
           );
 
-          if (releaseDate && releaseDate >= sinceDate) {
-            releases.push({
+          if (releaseRange && releaseRange.end >= sinceDate) {
+            freshReleases.push({
               ...album,
               artist_name: artistName,
+              artist_role: this.getArtistRole(albumType),
+              fuzzy_release_date: album.release_date_precision !== 'day',
             } as ReleaseWithArtist);
           }
 
           if (items.indexOf(album) === items.length - 1) {
-            const lastDate = this.parseReleaseDate(
-              album.release_date,
-              album.release_date_precision
-            );
-            if (lastDate && lastDate < sinceDate) {
+            if (releaseRange && releaseRange.end < sinceDate) {
               shouldContinue = false;
             }
           }
@@ -855,80 +2465,585 @@ export class SpotifyService {
       }
     }
 
-    return releases;
+    const releasesById = new Map<string, ReleaseWithArtist>();
+    if (isIncremental && watermark) {
+      for (const release of watermark.knownReleases) {
+        releasesById.set(release.id, release);
+      }
+    }
+    for (const release of freshReleases) {
+      releasesById.set(release.id, release);
+    }
+
+    const windowReleases = Array.from(releasesById.values()).filter(
+      (release) =>
+        allowedRoles.has(release.artist_role) && this.isReleaseInWindow(release, sinceDate, policy)
+    );
+    const newReleases = freshReleases.filter(
+      (release) =>
+        !seenIds.has(release.id) &&
+        !unscannedRoles.has(release.artist_role) &&
+        this.isReleaseInWindow(release, sinceDate, policy)
+    );
+
+    this.updateScanWatermark(watermarkKey, {
+      coveredSince: isIncremental && watermark ? watermark.coveredSince : sinceDate.getTime(),
+      newestReleaseIds,
+      knownReleases: Array.from(releasesById.values()),
+    });
+
+    return { releases: windowReleases, newReleases };
   }
 
-  private parseReleaseDate(dateStr: string, precision: string): Date | null {
-    try {
-      if (precision === 'day') {
-        return new Date(dateStr);
-      }
-      return null;
-    } catch {
+  private updateScanWatermark(
+    watermarkKey: string,
+    update: Omit<ArtistScanWatermark, 'lastScannedAt'>
+  ): void {
+    const now = Date.now();
+    const retentionStart = now - WATERMARK_RETENTION_MS;
+    const coveredSince = Math.max(update.coveredSince, retentionStart);
+
+    this.scanWatermarks.set(watermarkKey, {
+      ...update,
+      lastScannedAt: now,
+      coveredSince,
+      knownReleases: update.knownReleases.filter((release) => {
+        const releaseRange = this.parseReleaseDate(release.release_date, release.release_date_precision);
+        return Boolean(releaseRange && releaseRange.end.getTime() >= coveredSince);
+      }),
+    });
+    this.schedulePersist();
+  }
+
+  /**
+   * Turns a Spotify release date into the period it may fall in. Day precision
+   * gives a single instant; month and year precision cover the whole period.
+   */
+  private parseReleaseDate(dateStr: string, precision: string): { start: Date; end: Date } | null {
+    if (precision === 'day') {
+      const date = new Date(dateStr);
+      return Number.isNaN(date.getTime()) ? null : { start: date, end: date };
+    }
+
+    const [year, month] = dateStr.split('-').map(Number);
+    if (!Number.isInteger(year)) {
       return null;
     }
+
+    if (precision === 'month' && Number.isInteger(month)) {
+      return {
+        start: new Date(Date.UTC(year, month - 1, 1)),
+        end: new Date(Date.UTC(year, month, 1) - 1),
+      };
+    }
+
+    if (precision === 'year') {
+      return {
+        start: new Date(Date.UTC(year, 0, 1)),
+        end: new Date(Date.UTC(year + 1, 0, 1) - 1),
+      };
+    }
+
+    return null;
+  }
+
+  private isReleaseInWindow(
+    release: Pick<ReleaseWithArtist, 'release_date' | 'release_date_precision'>,
+    sinceDate: Date,
+    policy: FuzzyDatePolicy
+  ): boolean {
+    const range = this.parseReleaseDate(release.release_date, release.release_date_precision);
+    if (!range) {
+      return false;
+    }
+
+    if (release.release_date_precision === 'day') {
+      return range.start >= sinceDate;
+    }
+
+    const now = new Date();
+    switch (policy) {
+      case 'start':
+        return range.start >= sinceDate && range.start <= now;
+      case 'end':
+        return range.end >= sinceDate && range.end <= now;
+      default:
+        return range.end >= sinceDate && range.start <= now;
+    }
+  }
+
+  private getReleaseSortTime(release: ReleaseWithArtist): number {
+    const range = this.parseReleaseDate(release.release_date, release.release_date_precision);
+    return range ? range.start.getTime() : 0;
   }
 
   async createPlaylistFromReleases(
     playlistName: string,
     releases: ReleaseWithArtist[],
     isPublic: boolean,
-    onProgress?: (progress: ProgressUpdate) => void
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal,
+    target: PlaylistTarget = 'new',
+    filters?: ReleaseFilters,
+    selectedTrackIds?: string[]
   ): Promise<CreatePlaylistResponse> {
-    onProgress?.({ current: 0, total: 3, message: 'Getting user info...' });
-    const userResponse = await this.apiCallWithRetry(() => this.api.get('/me'));
-    const userId = userResponse.data.id;
-
-    onProgress?.({ current: 1, total: 3, message: 'Creating playlist...' });
-    const description = `Tracks from recent releases (last ${releases.length} releases) - Created by Spotify Release Hub`;
-
-    const playlistResponse = await this.apiCallWithRetry(() =>
-      this.api.post(`/users/${userId}/playlists`, {
-        name: playlistName,
-        public: isPublic,
-        description,
-      })
-    );
+    let playlistId = '';
+    let playlistUrl = '';
+    let tracksAdded = 0;
+    let tracksRemoved = 0;
+    let duplicatesSkipped = 0;
+    let explicitSkipped = 0;
+    const isRolling = target === 'rolling';
+    const totalSteps = isRolling ? 5 : 4;
+
+    try {
+      onProgress?.({ current: 0, total: totalSteps, message: 'Getting user info...' });
+      await this.ensureCacheScope();
+      const { id: userId } = await this.getCurrentUser();
+
+      let releasesToAdd = filterReleases(releases, filters).releases;
+      let rollingCutoff = 0;
+
+      if (isRolling) {
+        onProgress?.({ current: 1, total: totalSteps, message: 'Finding rolling playlist...' });
+        const rollingSettings = this.settingsService?.get().rollingPlaylist;
+        const rollingPlaylist = await this.resolveRollingPlaylist(
+          userId,
+          rollingSettings?.playlistId ?? null,
+          rollingSettings?.playlistName || playlistName,
+          isPublic,
+          signal
+        );
+        playlistId = rollingPlaylist.id;
+        playlistUrl = rollingPlaylist.url;
+
+        // Only releases young enough to survive the next prune are worth adding
+        rollingCutoff = Date.now() - (rollingSettings?.retentionDays ?? 30) * DAY_MS;
+        releasesToAdd = releasesToAdd.filter((release) => {
+          const range = this.parseReleaseDate(release.release_date, release.release_date_precision);
+          return Boolean(range && range.end.getTime() >= rollingCutoff);
+        });
+      } else {
+        onProgress?.({ current: 1, total: totalSteps, message: 'Creating playlist...' });
+        const created = await this.createUserPlaylist(
+          userId,
+          playlistName,
+          `Tracks from recent releases (last ${releases.length} releases) - Created by Spotify Release Hub`,
+          isPublic,
+          signal
+        );
+        playlistId = created.id;
+        playlistUrl = created.url;
+      }
+
+      const albumIds = releasesToAdd.map((release) => release.id);
+      const albumTrackMap = await this.getAlbumTrackMap(
+        albumIds,
+        (progress) => {
+          onProgress?.({
+            current: 2,
+            total: totalSteps,
+            message: `Collecting tracks (${progress.current}/${progress.total})...`,
+          });
+        },
+        signal
+      );
+      if (selectedTrackIds) {
+        // The preview lists a single and the album it came from separately, so a
+        // selection can still hold the same recording twice
+        const selected = new Set(selectedTrackIds);
+        for (const [albumId, ids] of albumTrackMap) {
+          albumTrackMap.set(albumId, ids.filter((id) => selected.has(id)));
+        }
+      }
+
+      onProgress?.({ current: 3, total: totalSteps, message: 'Removing duplicate tracks...' });
+      const deduplicated = await this.deduplicateReleaseTracks(
+        releasesToAdd,
+        albumTrackMap,
+        this.settingsService?.get().duplicateTrackPreference ?? 'album',
+        // The preview starts with explicit tracks unticked, so a ticked one was picked on purpose
+        !selectedTrackIds && Boolean(filters?.excludeExplicit),
+        signal
+      );
+      duplicatesSkipped = deduplicated.duplicatesSkipped;
+      explicitSkipped = deduplicated.explicitSkipped;
+
+      let trackIds = deduplicated.trackIds;
+      if (selectedTrackIds) {
+        // Keep the order the tracks were picked in
+        const keptIds = new Set(trackIds);
+        trackIds = Array.from(new Set(selectedTrackIds)).filter((id) => keptIds.has(id));
+      }
+
+      if (isRolling) {
+        onProgress?.({ current: 4, total: totalSteps, message: 'Pruning old tracks...' });
+        const existingItems = await this.getPlaylistItems(playlistId, signal);
+        const staleUris = Array.from(
+          new Set(
+            existingItems
+              .filter((item) => new Date(item.addedAt).getTime() < rollingCutoff)
+              .map((item) => item.uri)
+          )
+        );
+
+        for (let i = 0; i < staleUris.length; i += CHUNK_SIZE_PLAYLIST_ADD) {
+          const chunk = staleUris.slice(i, i + CHUNK_SIZE_PLAYLIST_ADD);
+          await this.apiCallWithRetry(
+            (requestSignal) =>
+              this.api.delete(`/playlists/${playlistId}/tracks`, {
+                data: { tracks: chunk.map((uri) => ({ uri })) },
+                signal: requestSignal,
+              }),
+            { signal, endpoint: 'playlists' }
+          );
+          tracksRemoved += chunk.length;
+        }
 
-    const playlistId = playlistResponse.data.id;
-    const playlistUrl = playlistResponse.data.external_urls.spotify;
+        const staleUriSet = new Set(staleUris);
+        const remainingIds = new Set(
+          existingItems.filter((item) => !staleUriSet.has(item.uri)).map((item) => item.trackId)
+        );
+        trackIds = trackIds.filter((id) => !remainingIds.has(id));
+      }
 
-    const albumIds = releases.map((release) => release.id);
-    const albumTrackMap = await this.getAlbumTrackMap(albumIds, (progress) => {
       onProgress?.({
-        current: 2,
-        total: 3,
-        message: `Collecting tracks (${progress.current}/${progress.total})...`,
+        current: totalSteps,
+        total: totalSteps,
+        message: 'Adding tracks to playlist...',
       });
-    });
+      for (let i = 0; i < trackIds.length; i += CHUNK_SIZE_PLAYLIST_ADD) {
+        const chunk = trackIds.slice(i, i + CHUNK_SIZE_PLAYLIST_ADD);
+        const uris = chunk.map((id) => `spotify:track:${id}`);
+
+        await this.apiCallWithRetry(
+          (requestSignal) =>
+            this.api.post(
+              `/playlists/${playlistId}/tracks`,
+              {
+                uris,
+              },
+              { signal: requestSignal }
+            ),
+          { signal, endpoint: 'playlists' }
+        );
+        tracksAdded += chunk.length;
+      }
+    } catch (error) {
+      if (!isCancellationError(error)) {
+        throw error;
+      }
+      return {
+        playlistUrl,
+        playlistId,
+        tracksAdded,
+        tracksRemoved,
+        duplicatesSkipped,
+        explicitSkipped,
+        cancelled: true,
+      };
+    }
 
-    const trackIds: string[] = [];
-    for (const ids of albumTrackMap.values()) {
-      trackIds.push(...ids);
+    return {
+      playlistUrl,
+      playlistId,
+      tracksAdded,
+      tracksRemoved,
+      duplicatesSkipped,
+      explicitSkipped,
+      cancelled: false,
+    };
+  }
+
+  /**
+   * Loads the full, ordered track list of each release for the preview step.
+   */
+  async getReleaseTracks(
+    releaseIds: string[],
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<GetReleaseTracksResponse> {
+    const tracksByRelease: Record<string, ReleaseTrack[]> = {};
+
+    try {
+      await this.ensureCacheScope();
+      const albumTrackMap = await this.getAlbumTrackMap(releaseIds, onProgress, signal);
+
+      onProgress?.({
+        current: albumTrackMap.size,
+        total: albumTrackMap.size,
+        message: 'Loading track details...',
+      });
+      const metadata = await this.getTrackMetadata(
+        Array.from(albumTrackMap.values()).flat(),
+        signal
+      );
+
+      for (const [albumId, trackIds] of albumTrackMap) {
+        tracksByRelease[albumId] = trackIds
+          .map((trackId) => metadata.get(trackId))
+          .filter((track): track is TrackMetadata => Boolean(track))
+          .map(({ isrc: _isrc, ...track }) => track);
+      }
+    } catch (error) {
+      if (!isCancellationError(error)) {
+        throw error;
+      }
+      return { tracksByRelease, cancelled: true };
     }
 
-    onProgress?.({ current: 3, total: 3, message: 'Adding tracks to playlist...' });
-    for (let i = 0; i < trackIds.length; i += CHUNK_SIZE_PLAYLIST_ADD) {
-      const chunk = trackIds.slice(i, i + CHUNK_SIZE_PLAYLIST_ADD);
-      const uris = chunk.map((id) => `spotify:track:${id}`);
+    return { tracksByRelease, cancelled: false };
+  }
+
+  async getUserPlaylists(ownedOnly = false, signal?: AbortSignal): Promise<SpotifyPlaylist[]> {
+    await this.ensureCacheScope();
+    const { id: userId } = await this.getCurrentUser();
 
-      await this.apiCallWithRetry(() =>
-        this.api.post(`/playlists/${playlistId}/tracks`, {
-          uris,
-        })
+    const playlists: SpotifyPlaylist[] = [];
+    let offset = 0;
+    const limit = 50;
+
+    while (true) {
+      const response = await this.apiCallWithRetry(
+        (requestSignal) =>
+          this.api.get('/me/playlists', {
+            params: { offset, limit },
+            signal: requestSignal,
+          }),
+        { signal, endpoint: 'playlists' }
+      );
+
+      const items = ((response.data.items ?? []) as SpotifyPlaylist[]).filter(Boolean);
+      playlists.push(
+        ...(ownedOnly ? items.filter((playlist) => playlist.owner?.id === userId) : items)
+      );
+
+      if (!response.data.next) {
+        break;
+      }
+      offset += limit;
+    }
+
+    return playlists;
+  }
+
+  private async createUserPlaylist(
+    userId: string,
+    name: string,
+    description: string,
+    isPublic: boolean,
+    signal?: AbortSignal
+  ): Promise<{ id: string; url: string }> {
+    const response = await this.apiCallWithRetry(
+      (requestSignal) =>
+        this.api.post(
+          `/users/${userId}/playlists`,
+          {
+            name,
+            public: isPublic,
+            description,
+          },
+          { signal: requestSignal }
+        ),
+      { signal, endpoint: 'playlists' }
+    );
+
+    return { id: response.data.id, url: response.data.external_urls.spotify };
+  }
+
+  /**
+   * Returns the playlist chosen for rolling updates, creating it on first use (or
+   * when the saved one was deleted) and remembering its ID in the settings.
+   */
+  private async resolveRollingPlaylist(
+    userId: string,
+    playlistId: string | null,
+    playlistName: string,
+    isPublic: boolean,
+    signal?: AbortSignal
+  ): Promise<{ id: string; url: string }> {
+    if (playlistId) {
+      try {
+        const response = await this.apiCallWithRetry(
+          (requestSignal) =>
+            this.api.get(`/playlists/${playlistId}`, {
+              params: { fields: 'id,external_urls' },
+              signal: requestSignal,
+            }),
+          { signal, endpoint: 'playlists' }
+        );
+        return { id: response.data.id, url: response.data.external_urls.spotify };
+      } catch (error) {
+        if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+          throw error;
+        }
+        console.warn(`[playlist] Rolling playlist ${playlistId} no longer exists - creating a new one`);
+      }
+    }
+
+    const created = await this.createUserPlaylist(
+      userId,
+      playlistName,
+      'New releases from artists you follow - kept up to date by Spotify Release Hub',
+      isPublic,
+      signal
+    );
+
+    if (this.settingsService) {
+      const { rollingPlaylist } = this.settingsService.get();
+      this.settingsService.update({ rollingPlaylist: { ...rollingPlaylist, playlistId: created.id } });
+    }
+
+    return created;
+  }
+
+  private async getPlaylistItems(
+    playlistId: string,
+    signal?: AbortSignal
+  ): Promise<Array<{ trackId: string; uri: string; addedAt: string }>> {
+    const items: Array<{ trackId: string; uri: string; addedAt: string }> = [];
+    let offset = 0;
+    const limit = 100;
+
+    while (true) {
+      const response = await this.apiCallWithRetry(
+        (requestSignal) =>
+          this.api.get(`/playlists/${playlistId}/tracks`, {
+            params: { offset, limit, fields: 'items(added_at,track(id,uri)),next' },
+            signal: requestSignal,
+          }),
+        { signal, endpoint: 'playlists' }
       );
+
+      for (const item of response.data.items ?? []) {
+        if (item?.track?.id && item.track.uri) {
+          items.push({ trackId: item.track.id, uri: item.track.uri, addedAt: item.added_at });
+        }
+      }
+
+      if (!response.data.next) {
+        break;
+      }
+      offset += limit;
+    }
+
+    return items;
+  }
+
+  /**
+   * Drops tracks that appear on more than one release (a single and the album
+   * it was taken from, say). Recordings are matched by ISRC, falling back to
+   * name, duration and explicitness when Spotify has no ISRC for a track.
+   * Explicit tracks are dropped here too when the filters ask for it, since the
+   * flag only comes with the track metadata.
+   */
+  private async deduplicateReleaseTracks(
+    releases: ReleaseWithArtist[],
+    albumTrackMap: Map<string, string[]>,
+    preference: DuplicateTrackPreference,
+    excludeExplicit: boolean,
+    signal?: AbortSignal
+  ): Promise<{ trackIds: string[]; duplicatesSkipped: number; explicitSkipped: number }> {
+    const releaseTypes = new Map(releases.map((release) => [release.id, release.album_type]));
+    const typeRank = (albumId: string): number => {
+      const albumType = releaseTypes.get(albumId);
+      if (albumType === preference) {
+        return 0;
+      }
+      return albumType === 'compilation' ? 2 : 1;
+    };
+
+    const orderedTracks: Array<{ trackId: string; albumId: string }> = [];
+    for (const [albumId, ids] of albumTrackMap) {
+      for (const trackId of ids) {
+        orderedTracks.push({ trackId, albumId });
+      }
+    }
+
+    const metadata = await this.getTrackMetadata(
+      orderedTracks.map((track) => track.trackId),
+      signal
+    );
+
+    const chosenByKey = new Map<string, { trackId: string; albumId: string }>();
+    const explicitIds = new Set<string>();
+    for (const track of orderedTracks) {
+      const info = metadata.get(track.trackId);
+      if (excludeExplicit && info?.explicit) {
+        explicitIds.add(track.trackId);
+        continue;
+      }
+      const key = info
+        ? info.isrc ??
+          `${info.name.trim().toLowerCase()}|${Math.round(info.duration_ms / 1000)}|${info.explicit}`
+        : track.trackId;
+
+      const chosen = chosenByKey.get(key);
+      if (!chosen || typeRank(track.albumId) < typeRank(chosen.albumId)) {
+        chosenByKey.set(key, track);
+      }
     }
 
+    const keptIds = new Set(Array.from(chosenByKey.values()).map((track) => track.trackId));
+    const trackIds = Array.from(
+      new Set(orderedTracks.map((track) => track.trackId).filter((id) => keptIds.has(id)))
+    );
+    const explicitSkipped = orderedTracks.filter((track) => explicitIds.has(track.trackId)).length;
+
     return {
-      playlistUrl,
-      playlistId,
-      tracksAdded: trackIds.length,
+      trackIds,
+      duplicatesSkipped: orderedTracks.length - trackIds.length - explicitSkipped,
+      explicitSkipped,
     };
   }
 
+  private async getTrackMetadata(
+    trackIds: string[],
+    signal?: AbortSignal
+  ): Promise<Map<string, TrackMetadata>> {
+    const uniqueIds = Array.from(new Set(trackIds));
+    const metadata = new Map<string, TrackMetadata>();
+    const market = await this.getMarket();
+
+    for (let i = 0; i < uniqueIds.length; i += 50) {
+      const batch = uniqueIds.slice(i, i + 50);
+      const response = await this.apiCallWithRetry(
+        (requestSignal) =>
+          this.api.get('/tracks', {
+            params: { ids: batch.join(','), market },
+            signal: requestSignal,
+          }),
+        { signal, endpoint: 'tracks' }
+      );
+
+      for (const track of response.data.tracks ?? []) {
+        if (!track?.id) {
+          continue;
+        }
+
+        metadata.set(track.id, {
+          id: track.id,
+          name: track.name ?? '',
+          uri: track.uri ?? `spotify:track:${track.id}`,
+          duration_ms: track.duration_ms ?? 0,
+          explicit: Boolean(track.explicit),
+          track_number: track.track_number ?? 0,
+          artists: (track.artists ?? []).map((artist: SpotifyArtist) => ({
+            id: artist.id,
+            name: artist.name,
+          })),
+          isrc: track.external_ids?.isrc ?? null,
+        });
+      }
+    }
+
+    return metadata;
+  }
+
   private async getAlbumTrackMap(
     albumIds: string[],
-    onProgress?: (progress: ProgressUpdate) => void
+    onProgress?: (progress: ProgressUpdate) => void,
+    signal?: AbortSignal
   ): Promise<Map<string, string[]>> {
     const uniqueAlbumIds = Array.from(new Set(albumIds));
     const albumTrackMap = new Map<string, string[]>();
@@ -939,17 +3054,21 @@ export class SpotifyService {
 
     const totalAlbums = uniqueAlbumIds.length;
     let processedAlbums = 0;
+    const market = await this.getMarket();
 
     for (let i = 0; i < uniqueAlbumIds.length; i += 20) {
       const batch = uniqueAlbumIds.slice(i, i + 20);
 
-      const response = await this.apiCallWithRetry(() =>
-        this.api.get('/albums', {
-          params: {
-            ids: batch.join(','),
-            market: 'US',
-          },
-        })
+      const response = await this.apiCallWithRetry(
+        (requestSignal) =>
+          this.api.get('/albums', {
+            params: {
+              ids: batch.join(','),
+              market,
+            },
+            signal: requestSignal,
+          }),
+        { signal, endpoint: 'albums' }
       );
 
       const albums = (response.data.albums ?? []) as AlbumWithTracks[];
@@ -958,7 +3077,7 @@ export class SpotifyService {
           continue;
         }
 
-        const trackIds = await this.collectAllTrackIdsFromAlbum(album);
+        const trackIds = await this.collectAllTrackIdsFromAlbum(album, signal);
         albumTrackMap.set(album.id, trackIds);
         processedAlbums += 1;
 
@@ -973,7 +3092,10 @@ export class SpotifyService {
     return albumTrackMap;
   }
 
-  private async collectAllTrackIdsFromAlbum(album: AlbumWithTracks): Promise<string[]> {
+  private async collectAllTrackIdsFromAlbum(
+    album: AlbumWithTracks,
+    signal?: AbortSignal
+  ): Promise<string[]> {
     const cached = this.albumTrackCache.get(album.id);
     if (cached) {
       return [...cached];
@@ -992,8 +3114,9 @@ export class SpotifyService {
     let nextUrl = summary?.next ?? null;
     while (nextUrl) {
       const url = nextUrl;
-      const nextResponse = await this.apiCallWithRetry(() =>
-        this.api.get(this.stripBaseUrl(url))
+      const nextResponse = await this.apiCallWithRetry(
+        (requestSignal) => this.api.get(this.stripBaseUrl(url), { signal: requestSignal }),
+        { signal, endpoint: 'albums' }
       );
 
       const nextData = nextResponse.data as AlbumTracksSummary;
@@ -1009,12 +3132,13 @@ export class SpotifyService {
     }
 
     this.albumTrackCache.set(album.id, trackIds);
+    this.schedulePersist();
     return [...trackIds];
   }
 
   private stripBaseUrl(url: string): string {
-    if (url.startsWith(SPOTIFY_API_BASE_URL)) {
-      return url.slice(SPOTIFY_API_BASE_URL.length);
+    if (url.startsWith(this.apiBaseUrl)) {
+      return url.slice(this.apiBaseUrl.length);
     }
     return url;
   }
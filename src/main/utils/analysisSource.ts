@@ -0,0 +1,42 @@
+import type { AnalysisSourceType } from '../../shared/types';
+
+export interface AnalysisSource {
+  type: AnalysisSourceType;
+  // Absent for Liked Songs, which always belongs to the signed-in user
+  id?: string;
+}
+
+export function getAnalysisSourceKey(source: AnalysisSource): string {
+  return `${source.type}:${source.id ?? 'me'}`;
+}
+
+const LIKED_SONGS_ALIASES = new Set(['liked', 'liked songs', 'liked-songs', 'my liked songs']);
+
+/**
+ * Accepts open.spotify.com URLs (including localized /intl-xx/ paths), spotify: URIs
+ * and bare IDs for playlists, albums, artists and tracks. Bare IDs are treated as
+ * playlists, as they always were. Liked Songs is matched by its collection URL/URI
+ * or by name.
+ */
+export function parseAnalysisSource(input: string): AnalysisSource {
+  const trimmed = input.trim();
+
+  if (
+    LIKED_SONGS_ALIASES.has(trimmed.toLowerCase()) ||
+    /open\.spotify\.com\/collection\/tracks/.test(trimmed) ||
+    /^spotify:(?:user:[^:]+:)?collection(?::tracks)?$/.test(trimmed)
+  ) {
+    return { type: 'liked-songs' };
+  }
+
+  const match = trimmed.match(/(playlist|album|artist|track)[/:]([a-zA-Z0-9]+)/);
+  if (match) {
+    return { type: match[1] as AnalysisSourceType, id: match[2] };
+  }
+
+  if (/^[a-zA-Z0-9]+$/.test(trimmed)) {
+    return { type: 'playlist', id: trimmed };
+  }
+
+  throw new Error('Invalid Spotify URL or ID. Use a playlist, album, artist or track link.');
+}
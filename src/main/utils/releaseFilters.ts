@@ -0,0 +1,67 @@
+import type { ReleaseFilters, ReleaseWithArtist } from '../../shared/types';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Turns a keyword pattern into a case-insensitive matcher. Patterns match whole
+ * words ("live" does not match "Olive") and `*` stands for any run of characters.
+ */
+function compileKeywordPattern(pattern: string): RegExp | null {
+  const trimmed = pattern.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const body = trimmed.split('*').map(escapeRegExp).join('.*');
+  return new RegExp(`(?:^|[^\\p{L}\\p{N}])${body}(?:$|[^\\p{L}\\p{N}])`, 'iu');
+}
+
+function compileKeywordPatterns(patterns: string[]): RegExp[] {
+  return patterns
+    .map(compileKeywordPattern)
+    .filter((pattern): pattern is RegExp => pattern !== null);
+}
+
+export function isArtistExcluded(filters: ReleaseFilters | undefined, artistId: string): boolean {
+  return Boolean(filters?.excludedArtists.some((artist) => artist.id === artistId));
+}
+
+/**
+ * Applies everything that can be decided from the album object alone. Explicit
+ * content is a per-track flag, so it is handled when the playlist is built.
+ */
+export function filterReleases(
+  releases: ReleaseWithArtist[],
+  filters?: ReleaseFilters
+): { releases: ReleaseWithArtist[]; filteredOut: number } {
+  if (!filters) {
+    return { releases, filteredOut: 0 };
+  }
+
+  const includePatterns = compileKeywordPatterns(filters.includeKeywords);
+  const excludePatterns = compileKeywordPatterns(filters.excludeKeywords);
+  const excludedArtistIds = new Set(filters.excludedArtists.map((artist) => artist.id));
+
+  const kept = releases.filter((release) => {
+    if (filters.albumTypes.length && !filters.albumTypes.includes(release.album_type)) {
+      return false;
+    }
+    if (filters.minTracks !== null && release.total_tracks < filters.minTracks) {
+      return false;
+    }
+    if (filters.maxTracks !== null && release.total_tracks > filters.maxTracks) {
+      return false;
+    }
+    if (release.artists.some((artist) => excludedArtistIds.has(artist.id))) {
+      return false;
+    }
+    if (includePatterns.length && !includePatterns.some((pattern) => pattern.test(release.name))) {
+      return false;
+    }
+    return !excludePatterns.some((pattern) => pattern.test(release.name));
+  });
+
+  return { releases: kept, filteredOut: releases.length - kept.length };
+}
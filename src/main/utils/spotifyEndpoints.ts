@@ -0,0 +1,23 @@
+import { SPOTIFY_ACCOUNTS_BASE_URL, SPOTIFY_API_BASE_URL } from '../../shared/constants';
+
+type EndpointOverrides = {
+  apiBaseUrl?: string;
+  accountsBaseUrl?: string;
+};
+
+// Runtime overrides (demo mode) take precedence over the environment
+let overrides: EndpointOverrides = {};
+
+export function getSpotifyApiBaseUrl(): string {
+  return overrides.apiBaseUrl || process.env.SPOTIFY_API_BASE_URL || SPOTIFY_API_BASE_URL;
+}
+
+export function getSpotifyAccountsBaseUrl(): string {
+  return (
+    overrides.accountsBaseUrl || process.env.SPOTIFY_ACCOUNTS_BASE_URL || SPOTIFY_ACCOUNTS_BASE_URL
+  );
+}
+
+export function setSpotifyEndpointOverrides(next: EndpointOverrides): void {
+  overrides = { ...next };
+}
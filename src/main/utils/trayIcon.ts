@@ -0,0 +1,8 @@
+// 32x32 PNG of the app mark, inlined because only compiled code is packaged
+export const TRAY_ICON_DATA_URL =
+  'data:image/png;base64,' +
+  'iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAA/UlEQVR42s2XwQ3DIAxFMwGHDNCd2KCZhRW8QnZh' +
+  'gw7hFSKlHIgUIUNtMKkP/xJh/gvYYJbX5738U9IAnwRJMQmTjizM3yCPUQVwSSGbnExhjnGjAJvQmALZegFgwLgU' +
+  'SAF2RfNLOxcAJphXV4La83OythqAG0w4SWI6CiBwJljXtSkmRKAAsMewEwhLAK9tzADxdwD4BSDda0Y83AEiNYFW' +
+  '4lXmineAJ7KfzIML4BhZ3s5tOtgAyhVAAqC2OQMCm0lYAvRWQWNMbJbhA4LmQfSAPOsonnQXoPgyUq6AIL6OuX/I' +
+  'zH5nsiEx0ZKZaEpNtOUmHiYmnmYmHqdT9QXFtI+sgYgG0QAAAABJRU5ErkJggg==';
@@ -26,6 +26,7 @@ const summarizeReleaseNotes = (notes?: string) => {
 
 function App() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isDemo, setIsDemo] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [updateInfo, setUpdateInfo] = useState<UpdateInfoPayload | null>(null);
@@ -56,6 +57,7 @@ function App() {
           return;
         }
         setIsAuthenticated(result.authenticated);
+        setIsDemo(Boolean(result.demo));
         setIsLoading(false);
       })
       .catch((err) => {
@@ -148,9 +150,22 @@ function App() {
     setIsLoading(false);
   };
 
+  const handleDemo = async () => {
+    setIsLoading(true);
+    const result = await window.electronAPI.startDemo();
+    if (result.success) {
+      setIsAuthenticated(true);
+      setIsDemo(true);
+    } else {
+      alert(`Could not start demo mode: ${result.error ?? 'unknown error'}`);
+    }
+    setIsLoading(false);
+  };
+
   const handleLogout = async () => {
     await window.electronAPI.logout();
     setIsAuthenticated(false);
+    setIsDemo(false);
   };
 
   const showUpdateBanner = updateInfo && !isUpdateDismissed;
@@ -213,9 +228,9 @@ function App() {
       )}
 
       {!isAuthenticated ? (
-        <LoginScreen onLogin={handleLogin} />
+        <LoginScreen onLogin={handleLogin} onDemo={handleDemo} />
       ) : (
-        <MainView onLogout={handleLogout} />
+        <MainView onLogout={handleLogout} isDemo={isDemo} />
       )}
     </div>
   );
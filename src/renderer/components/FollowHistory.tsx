@@ -0,0 +1,237 @@
+import { useEffect, useRef, useState } from 'react';
+import type {
+  CancellableOperation,
+  FollowHistoryEntry,
+  JobInfo,
+  ProgressUpdate,
+  UndoFollowHistoryResponse,
+} from '@shared/types';
+import RequestStats from './RequestStats';
+import './FollowHistory.css';
+
+const ACTION_LABELS: Record<FollowHistoryEntry['action'], string> = {
+  follow: 'Followed',
+  unfollow: 'Unfollowed',
+};
+
+const formatTimestamp = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+const formatUndoSummary = (entry: FollowHistoryEntry, result: UndoFollowHistoryResponse): string => {
+  const verb = entry.action === 'follow' ? 'Unfollowed' : 'Followed';
+  const lines = [`${verb} ${result.revertedCount} artist(s) again.`];
+  if (result.failedArtists.length > 0) {
+    lines.push(`${result.failedArtists.length} could not be changed:`);
+    lines.push(
+      ...Array.from(new Set(Object.values(result.failureReasons))).map((reason) => `- ${reason}`)
+    );
+  }
+  if (result.cancelled) {
+    lines.push(`Cancelled - ${result.skippedArtists.length} artist(s) were not processed.`);
+  }
+  return lines.join('\n');
+};
+
+function FollowHistory() {
+  const [entries, setEntries] = useState<FollowHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Entry currently being undone, so cancel knows which operation to stop
+  const [undoingEntry, setUndoingEntry] = useState<FollowHistoryEntry | null>(null);
+  const [progress, setProgress] = useState<ProgressUpdate | null>(null);
+  // The undo shares its job type with bulk changes from other tabs, so cancel targets its job
+  const undoJob = useRef<{ operation: CancellableOperation; jobId: string | null } | null>(null);
+
+  const loadHistory = async () => {
+    setIsLoading(true);
+    const response = await window.electronAPI.getFollowHistory();
+    if (response.success && response.data) {
+      setEntries(response.data.entries);
+    } else {
+      alert(`Error: ${response.error}`);
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadHistory();
+
+    const unsubscribeFollow = window.electronAPI.onFollowProgress(setProgress);
+    const unsubscribeUnfollow = window.electronAPI.onUnfollowProgress(setProgress);
+    const unsubscribeJobs = window.electronAPI.onJobUpdated((job: JobInfo) => {
+      const pending = undoJob.current;
+      if (
+        pending &&
+        !pending.jobId &&
+        job.origin === 'app' &&
+        job.type === pending.operation &&
+        job.label.startsWith('Undo ') &&
+        (job.status === 'queued' || job.status === 'running')
+      ) {
+        pending.jobId = job.id;
+      }
+    });
+
+    return () => {
+      unsubscribeFollow();
+      unsubscribeUnfollow();
+      unsubscribeJobs();
+    };
+  }, []);
+
+  const handleUndo = async (entry: FollowHistoryEntry, artistIds?: string[]) => {
+    const count = artistIds?.length ?? entry.artists.length - entry.revertedArtistIds.length;
+    const verb = entry.action === 'follow' ? 'Unfollow' : 'Follow';
+    if (!window.confirm(`${verb} ${count} artist(s) again?`)) {
+      return;
+    }
+
+    setUndoingEntry(entry);
+    setProgress(null);
+    undoJob.current = {
+      operation: entry.action === 'follow' ? 'unfollow-artists' : 'follow-artists',
+      jobId: null,
+    };
+
+    const response = await window.electronAPI.undoFollowHistory({ entryId: entry.id, artistIds });
+    undoJob.current = null;
+
+    if (response.success && response.data) {
+      alert(formatUndoSummary(entry, response.data));
+    } else {
+      alert(`Error: ${response.error}`);
+    }
+
+    setUndoingEntry(null);
+    setProgress(null);
+    // The undo itself is journaled as a new entry
+    await loadHistory();
+  };
+
+  const handleCancel = async () => {
+    const jobId = undoJob.current?.jobId;
+    if (!jobId) return;
+
+    const response = await window.electronAPI.cancelJob({ jobId });
+
+    if (!response.success) {
+      alert(`Error: ${response.error}`);
+    }
+  };
+
+  const isBusy = isLoading || undoingEntry !== null;
+
+  return (
+    <div className="follow-history">
+      <div className="section-header">
+        <h2>History</h2>
+        <p>Every follow and unfollow made from this app, with undo</p>
+      </div>
+
+      <div className="follow-history__toolbar">
+        <button className="btn btn-secondary" onClick={loadHistory} disabled={isBusy}>
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {progress && (
+        <div className="progress-container">
+          <div className="progress-bar">
+            <div
+              className="progress-fill"
+              style={{ width: `${(progress.current / progress.total) * 100}%` }}
+            ></div>
+          </div>
+          <p className="progress-text">
+            {progress.message} ({progress.current}/{progress.total})
+          </p>
+          {undoingEntry && (
+            <div className="progress-actions">
+              <button className="btn btn-secondary" onClick={handleCancel}>
+                Cancel
+              </button>
+            </div>
+          )}
+          <RequestStats active={undoingEntry !== null} />
+        </div>
+      )}
+
+      {entries.map((entry) => {
+        const reverted = new Set(entry.revertedArtistIds);
+        const pendingCount = entry.artists.length - reverted.size;
+        const undoVerb = entry.action === 'follow' ? 'Unfollow' : 'Follow';
+
+        return (
+          <div key={entry.id} className="follow-history__entry">
+            <div className="follow-history__entry-header">
+              <div>
+                <div className="follow-history__entry-title">
+                  {entry.undoOf ? 'Undo: ' : ''}
+                  {ACTION_LABELS[entry.action]} {entry.artists.length} artist
+                  {entry.artists.length !== 1 ? 's' : ''}
+                </div>
+                <div className="follow-history__entry-meta">
+                  {formatTimestamp(entry.timestamp)}
+                  {entry.source && (
+                    <>
+                      {' · from '}
+                      {entry.source.url?.startsWith('https://') ? (
+                        <a href={entry.source.url} target="_blank" rel="noopener noreferrer">
+                          {entry.source.label}
+                        </a>
+                      ) : (
+                        entry.source.label
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+              <button
+                className="btn btn-secondary"
+                onClick={() => handleUndo(entry)}
+                disabled={isBusy || pendingCount === 0}
+              >
+                {pendingCount === 0 ? 'Undone' : `Undo All (${pendingCount})`}
+              </button>
+            </div>
+
+            <ul className="follow-history__artists">
+              {entry.artists.map((artist) => (
+                <li key={artist.id} className="follow-history__artist">
+                  <a
+                    href={`https://open.spotify.com/artist/${artist.id}`}
+                    className={`follow-history__artist-name ${
+                      reverted.has(artist.id) ? 'follow-history__artist-name--reverted' : ''
+                    }`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    {artist.name}
+                  </a>
+                  {reverted.has(artist.id) ? (
+                    <span className="follow-history__undone">Undone</span>
+                  ) : (
+                    <button
+                      type="button"
+                      className="btn-link"
+                      onClick={() => handleUndo(entry, [artist.id])}
+                      disabled={isBusy}
+                    >
+                      {undoVerb}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+
+      {!isLoading && entries.length === 0 && (
+        <div className="empty-state">
+          <p>Artists you follow or unfollow here will show up in this list.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FollowHistory;
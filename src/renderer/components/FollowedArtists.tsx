@@ -0,0 +1,491 @@
+import { useEffect, useMemo, useState } from 'react';
+import type {
+  FindStaleArtistsResponse,
+  FollowedArtist,
+  ProgressUpdate,
+  UnfollowArtistsResponse,
+} from '@shared/types';
+import RequestStats from './RequestStats';
+import './FollowedArtists.css';
+
+type SortKey = 'name' | 'popularity' | 'lastRelease';
+
+const SORT_OPTIONS: Array<{ value: SortKey; label: string }> = [
+  { value: 'name', label: 'Name' },
+  { value: 'popularity', label: 'Popularity' },
+  { value: 'lastRelease', label: 'Last release' },
+];
+
+const formatUnfollowSummary = (result: UnfollowArtistsResponse): string => {
+  const lines = [`Unfollowed ${result.unfollowedCount} artists.`];
+  if (result.failedCount > 0) {
+    const reasons = Array.from(new Set(Object.values(result.failureReasons)));
+    lines.push(`${result.failedCount} failed to unfollow and stay selected for a retry:`);
+    lines.push(...reasons.map((reason) => `- ${reason}`));
+  }
+  if (result.cancelled) {
+    lines.push(`Cancelled - ${result.skippedArtists.length} artist(s) were not processed.`);
+  }
+  return lines.join('\n');
+};
+
+const DEFAULT_STALE_MONTHS = 24;
+
+const formatQuietPeriod = (monthsSinceRelease: number | null): string => {
+  if (monthsSinceRelease === null) {
+    return 'No releases';
+  }
+  if (monthsSinceRelease >= 24) {
+    return `Quiet for ${Math.floor(monthsSinceRelease / 12)} years`;
+  }
+  return `Quiet for ${monthsSinceRelease} months`;
+};
+
+const compareArtists = (a: FollowedArtist, b: FollowedArtist, sortKey: SortKey): number => {
+  if (sortKey === 'popularity') {
+    return (b.popularity ?? 0) - (a.popularity ?? 0);
+  }
+  if (sortKey === 'lastRelease') {
+    // Release dates are ISO prefixes (YYYY, YYYY-MM or YYYY-MM-DD), so they sort as strings;
+    // artists without a known date go last
+    return (b.lastReleaseDate ?? '').localeCompare(a.lastReleaseDate ?? '');
+  }
+  return a.name.localeCompare(b.name);
+};
+
+function FollowedArtists() {
+  const [artists, setArtists] = useState<FollowedArtist[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingDates, setIsLoadingDates] = useState(false);
+  const [isUnfollowing, setIsUnfollowing] = useState(false);
+  const [isFindingStale, setIsFindingStale] = useState(false);
+  const [progress, setProgress] = useState<ProgressUpdate | null>(null);
+  const [search, setSearch] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('name');
+  const [selectedArtists, setSelectedArtists] = useState<Set<string>>(new Set());
+  // Artists whose release date was looked up, so a null date means "no releases"
+  const [checkedDateIds, setCheckedDateIds] = useState<Set<string>>(new Set());
+  const [staleMonths, setStaleMonths] = useState(DEFAULT_STALE_MONTHS);
+  const [staleResult, setStaleResult] = useState<FindStaleArtistsResponse | null>(null);
+  const [showStaleOnly, setShowStaleOnly] = useState(false);
+
+  const isBusy = isLoading || isLoadingDates || isUnfollowing || isFindingStale;
+  const isCancellable = isLoadingDates || isUnfollowing || isFindingStale;
+
+  const loadArtists = async (refresh = false) => {
+    setIsLoading(true);
+    const response = await window.electronAPI.getFollowedArtists({ refresh });
+    if (response.success && response.data) {
+      setArtists(response.data.artists);
+      setSelectedArtists(new Set());
+      setStaleResult(null);
+      setShowStaleOnly(false);
+    } else {
+      alert(`Error: ${response.error}`);
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    const unsubscribeDates = window.electronAPI.onLastReleaseDatesProgress(setProgress);
+    const unsubscribeUnfollow = window.electronAPI.onUnfollowProgress(setProgress);
+    const unsubscribeStale = window.electronAPI.onStaleArtistsProgress(setProgress);
+    loadArtists();
+
+    return () => {
+      unsubscribeDates();
+      unsubscribeUnfollow();
+      unsubscribeStale();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const staleMonthsById = useMemo(
+    () =>
+      new Map(
+        (staleResult?.staleArtists ?? []).map((artist) => [artist.id, artist.monthsSinceRelease])
+      ),
+    [staleResult]
+  );
+
+  const visibleArtists = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const matching = artists.filter(
+      (artist) =>
+        (!showStaleOnly || staleMonthsById.has(artist.id)) &&
+        (!query ||
+          artist.name.toLowerCase().includes(query) ||
+          artist.genres?.some((genre) => genre.toLowerCase().includes(query)))
+    );
+    return matching.sort((a, b) => compareArtists(a, b, sortKey));
+  }, [artists, search, sortKey, showStaleOnly, staleMonthsById]);
+
+  // Unfollowed artists drop out of the list, so only count those still followed
+  const staleArtists = artists.filter((artist) => staleMonthsById.has(artist.id));
+
+  const artistsMissingDates = artists.filter(
+    (artist) => artist.lastReleaseDate === null && !checkedDateIds.has(artist.id)
+  );
+  const allVisibleSelected =
+    visibleArtists.length > 0 && visibleArtists.every((artist) => selectedArtists.has(artist.id));
+
+  const toggleArtist = (artistId: string) => {
+    const newSelected = new Set(selectedArtists);
+    if (newSelected.has(artistId)) {
+      newSelected.delete(artistId);
+    } else {
+      newSelected.add(artistId);
+    }
+    setSelectedArtists(newSelected);
+  };
+
+  const toggleAllVisible = () => {
+    const newSelected = new Set(selectedArtists);
+    for (const artist of visibleArtists) {
+      if (allVisibleSelected) {
+        newSelected.delete(artist.id);
+      } else {
+        newSelected.add(artist.id);
+      }
+    }
+    setSelectedArtists(newSelected);
+  };
+
+  const handleLoadDates = async () => {
+    setIsLoadingDates(true);
+    setProgress(null);
+
+    const response = await window.electronAPI.getLastReleaseDates({
+      artistIds: artistsMissingDates.map((artist) => artist.id),
+    });
+
+    if (response.success && response.data) {
+      const dates = response.data.lastReleaseDates;
+      setCheckedDateIds((current) => new Set([...current, ...Object.keys(dates)]));
+      setArtists((current) =>
+        current.map((artist) =>
+          artist.id in dates ? { ...artist, lastReleaseDate: dates[artist.id] } : artist
+        )
+      );
+    } else {
+      alert(`Error: ${response.error}`);
+    }
+
+    setIsLoadingDates(false);
+    setProgress(null);
+  };
+
+  const handleFindStale = async () => {
+    setIsFindingStale(true);
+    setProgress(null);
+
+    const response = await window.electronAPI.findStaleArtists({ monthsQuiet: staleMonths });
+
+    if (response.success && response.data) {
+      const stale = new Map(
+        response.data.staleArtists.map((artist) => [artist.id, artist.lastReleaseDate])
+      );
+      setStaleResult(response.data);
+      setShowStaleOnly(response.data.staleArtists.length > 0);
+      if (!response.data.cancelled) {
+        // Every followed artist was checked, so anyone not flagged has a recent date already
+        setCheckedDateIds(new Set(artists.map((artist) => artist.id)));
+      }
+      setArtists((current) =>
+        current.map((artist) =>
+          stale.has(artist.id) ? { ...artist, lastReleaseDate: stale.get(artist.id) ?? null } : artist
+        )
+      );
+    } else {
+      alert(`Error: ${response.error}`);
+    }
+
+    setIsFindingStale(false);
+    setProgress(null);
+  };
+
+  const handleQueueStale = () => {
+    setSelectedArtists(new Set(staleArtists.map((artist) => artist.id)));
+    setShowStaleOnly(true);
+  };
+
+  const handleExcludeStale = async () => {
+    const settingsResponse = await window.electronAPI.getSettings();
+    if (!settingsResponse.success || !settingsResponse.data) {
+      alert(`Error: ${settingsResponse.error}`);
+      return;
+    }
+
+    const filters = settingsResponse.data.settings.releaseFilters;
+    const alreadyExcluded = new Set(filters.excludedArtists.map((artist) => artist.id));
+    const additions = staleArtists
+      .filter((artist) => !alreadyExcluded.has(artist.id))
+      .map((artist) => ({ id: artist.id, name: artist.name }));
+
+    if (additions.length === 0) {
+      alert('All stale artists are already excluded from release scans.');
+      return;
+    }
+
+    const response = await window.electronAPI.updateSettings({
+      releaseFilters: { ...filters, excludedArtists: [...filters.excludedArtists, ...additions] },
+    });
+
+    if (response.success) {
+      alert(
+        `Excluded ${additions.length} artist(s) from release scans. ` +
+          'You can include them again from the release filters.'
+      );
+    } else {
+      alert(`Error: ${response.error}`);
+    }
+  };
+
+  const handleUnfollow = async () => {
+    if (selectedArtists.size === 0) {
+      return;
+    }
+    if (!window.confirm(`Unfollow ${selectedArtists.size} artist(s)?`)) {
+      return;
+    }
+
+    setIsUnfollowing(true);
+    setProgress(null);
+
+    const response = await window.electronAPI.unfollowArtists({
+      artistIds: Array.from(selectedArtists),
+      artistNames: Object.fromEntries(artists.map((artist) => [artist.id, artist.name])),
+      source: { label: showStaleOnly ? 'Stale artists' : 'Followed Artists' },
+    });
+
+    if (response.success && response.data) {
+      alert(formatUnfollowSummary(response.data));
+
+      const stillFollowed = new Set([
+        ...response.data.failedArtists,
+        ...response.data.skippedArtists,
+      ]);
+      setArtists((current) =>
+        current.filter((artist) => !selectedArtists.has(artist.id) || stillFollowed.has(artist.id))
+      );
+      setSelectedArtists(stillFollowed);
+    } else {
+      alert(`Error: ${response.error}`);
+    }
+
+    setIsUnfollowing(false);
+    setProgress(null);
+  };
+
+  const handleCancel = async () => {
+    const response = await window.electronAPI.cancelOperation({
+      operation: isUnfollowing
+        ? 'unfollow-artists'
+        : isFindingStale
+          ? 'stale-artists'
+          : 'last-release-dates',
+    });
+
+    if (!response.success) {
+      alert(`Error: ${response.error}`);
+    }
+  };
+
+  return (
+    <div className="followed-artists">
+      <div className="section-header">
+        <h2>Followed Artists</h2>
+        <p>Review everyone you follow and clean up in bulk</p>
+      </div>
+
+      <div className="followed-artists__toolbar">
+        <input
+          type="text"
+          className="input"
+          placeholder="Search by name or genre"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <select
+          className="select"
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as SortKey)}
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              Sort by {option.label.toLowerCase()}
+            </option>
+          ))}
+        </select>
+        <button className="btn btn-secondary" onClick={() => loadArtists(true)} disabled={isBusy}>
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+        <button
+          className="btn btn-secondary"
+          onClick={handleLoadDates}
+          disabled={isBusy || artistsMissingDates.length === 0}
+        >
+          {isLoadingDates ? 'Loading...' : `Load release dates (${artistsMissingDates.length})`}
+        </button>
+      </div>
+
+      <div className="followed-artists__toolbar">
+        <label className="followed-artists__threshold">
+          Flag artists quiet for more than
+          <input
+            type="number"
+            className="input"
+            min="1"
+            value={staleMonths}
+            onChange={(e) => setStaleMonths(Number(e.target.value))}
+            disabled={isBusy}
+          />
+          months
+        </label>
+        <button
+          className="btn btn-secondary"
+          onClick={handleFindStale}
+          disabled={isBusy || artists.length === 0}
+        >
+          {isFindingStale ? 'Checking...' : 'Find Stale Artists'}
+        </button>
+      </div>
+
+      {staleResult && (
+        <div className="followed-artists__stale">
+          <p>
+            {staleArtists.length} of {staleResult.totalArtistsChecked} checked artists have not
+            released anything in the last {staleResult.monthsQuiet} months
+            {staleResult.cancelled ? ' (check was cancelled before all artists were checked)' : ''}.
+          </p>
+          {staleArtists.length > 0 && (
+            <div className="results-actions">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={showStaleOnly}
+                  onChange={(e) => setShowStaleOnly(e.target.checked)}
+                />
+                <span>Show only stale artists</span>
+              </label>
+              <button className="btn btn-secondary" onClick={handleExcludeStale} disabled={isBusy}>
+                Exclude from Scans
+              </button>
+              <button className="btn btn-secondary" onClick={handleQueueStale} disabled={isBusy}>
+                Queue for Unfollow
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {progress && (
+        <div className="progress-container">
+          <div className="progress-bar">
+            <div
+              className="progress-fill"
+              style={{ width: `${(progress.current / progress.total) * 100}%` }}
+            ></div>
+          </div>
+          <p className="progress-text">
+            {progress.message} ({progress.current}/{progress.total})
+          </p>
+          {isCancellable && (
+            <div className="progress-actions">
+              <button className="btn btn-secondary" onClick={handleCancel}>
+                Cancel
+              </button>
+            </div>
+          )}
+          <RequestStats active={isCancellable} />
+        </div>
+      )}
+
+      {artists.length > 0 && (
+        <div className="results-section">
+          <div className="results-header">
+            <h3>
+              {visibleArtists.length === artists.length
+                ? `Following ${artists.length} artists`
+                : `Showing ${visibleArtists.length} of ${artists.length} artists`}
+            </h3>
+            <div className="results-actions">
+              <button className="btn-link" onClick={toggleAllVisible} disabled={isBusy}>
+                {allVisibleSelected ? 'Deselect All' : 'Select All'}
+              </button>
+              <button
+                className="btn btn-primary"
+                onClick={handleUnfollow}
+                disabled={selectedArtists.size === 0 || isBusy}
+              >
+                Unfollow Selected ({selectedArtists.size})
+              </button>
+            </div>
+          </div>
+
+          <div className="artist-list">
+            {visibleArtists.map((artist) => (
+              <div
+                key={artist.id}
+                className={`artist-card ${selectedArtists.has(artist.id) ? 'selected' : ''}`}
+                onClick={() => toggleArtist(artist.id)}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedArtists.has(artist.id)}
+                  onChange={() => {}}
+                  className="artist-checkbox"
+                />
+                {artist.images && artist.images.length > 0 ? (
+                  <img src={artist.images[0].url} alt={artist.name} className="artist-image" />
+                ) : (
+                  <div className="artist-image-placeholder">
+                    <span className="artist-icon">♪</span>
+                  </div>
+                )}
+                <div className="artist-info">
+                  <div className="artist-name">{artist.name}</div>
+                  {artist.genres && artist.genres.length > 0 && (
+                    <div className="artist-genres">{artist.genres.slice(0, 3).join(', ')}</div>
+                  )}
+                  <div className="followed-artists__meta">
+                    <span>Popularity {artist.popularity ?? '—'}</span>
+                    <span>
+                      Last release:{' '}
+                      {artist.lastReleaseDate ??
+                        (checkedDateIds.has(artist.id) ? 'none found' : 'unknown')}
+                    </span>
+                    {staleMonthsById.has(artist.id) && (
+                      <span className="followed-artists__stale-badge">
+                        {formatQuietPeriod(staleMonthsById.get(artist.id) ?? null)}
+                      </span>
+                    )}
+                  </div>
+                  {artist.external_urls?.spotify && (
+                    <a
+                      href={artist.external_urls.spotify}
+                      className="artist-link"
+                      onClick={(e) => e.stopPropagation()}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      View on Spotify →
+                    </a>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!isLoading && artists.length === 0 && (
+        <div className="empty-state">
+          <p>You are not following any artists yet.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FollowedArtists;
@@ -2,9 +2,10 @@ import './LoginScreen.css';
 
 interface LoginScreenProps {
   onLogin: () => void;
+  onDemo: () => void;
 }
 
-function LoginScreen({ onLogin }: LoginScreenProps) {
+function LoginScreen({ onLogin, onDemo }: LoginScreenProps) {
   return (
     <div className="login-screen">
       <div className="login-content">
@@ -33,6 +34,13 @@ function LoginScreen({ onLogin }: LoginScreenProps) {
         <p className="login-notice">
           You'll be redirected to Spotify to authorize this app
         </p>
+
+        <button className="btn btn-secondary demo-btn" onClick={onDemo}>
+          Try demo mode
+        </button>
+        <p className="login-notice">
+          Explore every feature with sample data - no Spotify account needed
+        </p>
       </div>
     </div>
   );
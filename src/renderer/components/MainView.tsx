@@ -1,19 +1,28 @@
 import { useState } from 'react';
 import './MainView.css';
+import FollowedArtists from './FollowedArtists';
+import FollowHistory from './FollowHistory';
 import PlaylistFollower from './PlaylistFollower';
 import ReleaseFinder from './ReleaseFinder';
+import SettingsPanel from './SettingsPanel';
 
 interface MainViewProps {
   onLogout: () => void;
+  isDemo?: boolean;
 }
 
-function MainView({ onLogout }: MainViewProps) {
-  const [activeTab, setActiveTab] = useState<'playlist' | 'releases'>('playlist');
+function MainView({ onLogout, isDemo = false }: MainViewProps) {
+  const [activeTab, setActiveTab] = useState<
+    'playlist' | 'releases' | 'artists' | 'history' | 'settings'
+  >('playlist');
 
   return (
     <div className="main-view">
       <header className="app-header">
-        <h1 className="header-title">Spotify Release Hub</h1>
+        <h1 className="header-title">
+          Spotify Release Hub
+          {isDemo && <span className="demo-badge">Demo</span>}
+        </h1>
         <button className="btn btn-secondary logout-btn" onClick={onLogout}>
           Logout
         </button>
@@ -24,7 +33,7 @@ function MainView({ onLogout }: MainViewProps) {
           className={`tab ${activeTab === 'playlist' ? 'active' : ''}`}
           onClick={() => setActiveTab('playlist')}
         >
-          Follow from Playlist
+          Follow from Spotify
         </button>
         <button
           className={`tab ${activeTab === 'releases' ? 'active' : ''}`}
@@ -32,10 +41,32 @@ function MainView({ onLogout }: MainViewProps) {
         >
           Find New Releases
         </button>
+        <button
+          className={`tab ${activeTab === 'artists' ? 'active' : ''}`}
+          onClick={() => setActiveTab('artists')}
+        >
+          Followed Artists
+        </button>
+        <button
+          className={`tab ${activeTab === 'history' ? 'active' : ''}`}
+          onClick={() => setActiveTab('history')}
+        >
+          History
+        </button>
+        <button
+          className={`tab ${activeTab === 'settings' ? 'active' : ''}`}
+          onClick={() => setActiveTab('settings')}
+        >
+          Settings
+        </button>
       </div>
 
       <div className="tab-content">
-        {activeTab === 'playlist' ? <PlaylistFollower /> : <ReleaseFinder />}
+        {activeTab === 'playlist' && <PlaylistFollower />}
+        {activeTab === 'releases' && <ReleaseFinder />}
+        {activeTab === 'artists' && <FollowedArtists />}
+        {activeTab === 'history' && <FollowHistory />}
+        {activeTab === 'settings' && <SettingsPanel />}
       </div>
     </div>
   );
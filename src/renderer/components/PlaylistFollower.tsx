@@ -1,41 +1,100 @@
 import { useState, useEffect } from 'react';
-import type { SpotifyArtist, UnfollowedArtist, ProgressUpdate } from '@shared/types';
+import type {
+  AnalysisSourceType,
+  FollowArtistsResponse,
+  FollowHistorySource,
+  RecommendationStrategy,
+  RelatedArtistCandidate,
+  SpotifyPlaylist,
+  UnfollowedArtist,
+  ProgressUpdate,
+} from '@shared/types';
+import RequestStats from './RequestStats';
 import './PlaylistFollower.css';
 
+const LIKED_SONGS_SOURCE = 'liked';
+
+// How each source reads in "Appears 3 times in ..." and "all artists from this ..."
+const SOURCE_NOUNS: Record<AnalysisSourceType, string> = {
+  playlist: 'playlist',
+  album: 'album',
+  artist: 'discography',
+  track: 'track',
+  'liked-songs': 'Liked Songs',
+};
+
+type AnalysisMode = 'single' | 'batch';
+
+const RELATED_DEPTH_OPTIONS = [1, 2, 3];
+
+interface AnalysisResults {
+  // Completes "Found N unfollowed artists in ..."
+  title: string;
+  // Completes "Appears N times in ..." and "following all artists from ..."
+  sourceLabel: string;
+  unfollowedArtists: UnfollowedArtist[];
+  // Recorded with every follow made from these results
+  historySource: FollowHistorySource;
+}
+
+const describeSource = (sourceType: AnalysisSourceType): string =>
+  sourceType === 'liked-songs' ? 'your Liked Songs' : `this ${SOURCE_NOUNS[sourceType]}`;
+
+const parseSourceList = (text: string): string[] =>
+  text
+    .split(/[\n,]+/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const getArtistNames = (artists: Array<{ id: string; name: string }>): Record<string, string> =>
+  Object.fromEntries(artists.map((artist) => [artist.id, artist.name]));
+
+const formatFollowSummary = (result: FollowArtistsResponse): string => {
+  const lines = [`Successfully followed ${result.followedCount} artists!`];
+  if (result.failedCount > 0) {
+    lines.push(`${result.failedCount} failed to follow. The reasons are shown on each artist.`);
+  }
+  if (result.cancelled) {
+    lines.push(`Cancelled - ${result.skippedArtists.length} artist(s) were not processed.`);
+  }
+  return lines.join('\n');
+};
+
 function PlaylistFollower() {
-  const [playlistUrl, setPlaylistUrl] = useState('');
+  const [mode, setMode] = useState<AnalysisMode>('single');
+  const [sourceUrl, setSourceUrl] = useState('');
+  const [batchText, setBatchText] = useState('');
+  const [myPlaylists, setMyPlaylists] = useState<SpotifyPlaylist[] | null>(null);
+  const [isLoadingPlaylists, setIsLoadingPlaylists] = useState(false);
+  const [pickedPlaylistIds, setPickedPlaylistIds] = useState<Set<string>>(new Set());
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isFollowing, setIsFollowing] = useState(false);
   const [progress, setProgress] = useState<ProgressUpdate | null>(null);
-  const [results, setResults] = useState<{
-    playlistName: string;
-    playlistOwner: string;
-    unfollowedArtists: UnfollowedArtist[];
-  } | null>(null);
+  const [results, setResults] = useState<AnalysisResults | null>(null);
   const [selectedArtists, setSelectedArtists] = useState<Set<string>>(new Set());
-  const [relatedArtists, setRelatedArtists] = useState<SpotifyArtist[]>([]);
+  const [relatedArtists, setRelatedArtists] = useState<RelatedArtistCandidate[]>([]);
+  const [relatedDepth, setRelatedDepth] = useState(1);
+  const [relatedStrategy, setRelatedStrategy] = useState<RecommendationStrategy | null>(null);
   const [selectedRelatedArtists, setSelectedRelatedArtists] = useState<Set<string>>(new Set());
   const [isFetchingRelated, setIsFetchingRelated] = useState(false);
   const [hasFetchedRelated, setHasFetchedRelated] = useState(false);
   const [relatedError, setRelatedError] = useState<string | null>(null);
+  // Why artists from the latest follows could not be followed, keyed by artist ID
+  const [followFailures, setFollowFailures] = useState<Record<string, string>>({});
 
   useEffect(() => {
     const unsubscribeAnalyze = window.electronAPI.onAnalyzeProgress(setProgress);
     const unsubscribeFollow = window.electronAPI.onFollowProgress(setProgress);
+    const unsubscribeRelated = window.electronAPI.onRelatedArtistsProgress(setProgress);
 
     return () => {
       unsubscribeAnalyze();
       unsubscribeFollow();
+      unsubscribeRelated();
     };
   }, []);
 
-  const handleAnalyze = async () => {
-    if (!playlistUrl.trim()) {
-      alert('Please enter a playlist URL');
-      return;
-    }
-
-    setIsAnalyzing(true);
+  const resetResults = () => {
     setProgress(null);
     setResults(null);
     setSelectedArtists(new Set());
@@ -43,11 +102,42 @@ function PlaylistFollower() {
     setSelectedRelatedArtists(new Set());
     setRelatedError(null);
     setHasFetchedRelated(false);
+    setFollowFailures({});
+  };
+
+  const updateFollowFailures = (artistIds: string[], result: FollowArtistsResponse) => {
+    setFollowFailures((current) => {
+      const next = { ...current };
+      for (const artistId of artistIds) {
+        delete next[artistId];
+      }
+      return { ...next, ...result.failureReasons };
+    });
+  };
 
-    const response = await window.electronAPI.analyzePlaylist({ playlistUrl });
+  const handleAnalyze = async (source: string) => {
+    if (!source.trim()) {
+      alert('Please enter a Spotify URL');
+      return;
+    }
+
+    setIsAnalyzing(true);
+    resetResults();
+
+    const response = await window.electronAPI.analyzePlaylist({ source });
 
     if (response.success && response.data) {
-      setResults(response.data);
+      setResults({
+        title: `"${response.data.playlistName}"`,
+        sourceLabel: describeSource(response.data.sourceType),
+        unfollowedArtists: response.data.unfollowedArtists,
+        historySource: { label: response.data.playlistName, url: source.trim() },
+      });
+      if (response.data.cancelled) {
+        alert(
+          `Analysis cancelled. Showing ${response.data.unfollowedArtists.length} unfollowed artist(s) found so far.`
+        );
+      }
     } else {
       alert(`Error: ${response.error}`);
     }
@@ -56,6 +146,75 @@ function PlaylistFollower() {
     setProgress(null);
   };
 
+  const handleAnalyzeBatch = async () => {
+    const sources = [...parseSourceList(batchText), ...pickedPlaylistIds];
+    if (sources.length === 0) {
+      alert('Please add at least one playlist');
+      return;
+    }
+
+    setIsAnalyzing(true);
+    resetResults();
+
+    const response = await window.electronAPI.analyzePlaylists({ sources });
+
+    if (response.success && response.data) {
+      const { playlists, failedSources } = response.data;
+      setResults({
+        title: `${playlists.length} playlist${playlists.length !== 1 ? 's' : ''}`,
+        sourceLabel: 'these playlists',
+        unfollowedArtists: response.data.unfollowedArtists,
+        historySource: {
+          label: playlists.map((playlist) => playlist.playlistName).join(', '),
+        },
+      });
+
+      const notices: string[] = [];
+      if (failedSources.length > 0) {
+        notices.push(
+          `${failedSources.length} source(s) could not be analyzed:\n` +
+            failedSources.map((failed) => `${failed.source}: ${failed.error}`).join('\n')
+        );
+      }
+      if (response.data.cancelled) {
+        notices.push(
+          `Analysis cancelled. Showing ${response.data.unfollowedArtists.length} unfollowed artist(s) found so far.`
+        );
+      }
+      if (notices.length > 0) {
+        alert(notices.join('\n\n'));
+      }
+    } else {
+      alert(`Error: ${response.error}`);
+    }
+
+    setIsAnalyzing(false);
+    setProgress(null);
+  };
+
+  const handleLoadMyPlaylists = async () => {
+    setIsLoadingPlaylists(true);
+    const response = await window.electronAPI.getUserPlaylists();
+    if (response.success && response.data) {
+      setMyPlaylists(response.data);
+    } else {
+      alert(`Error: ${response.error}`);
+    }
+    setIsLoadingPlaylists(false);
+  };
+
+  const togglePickedPlaylist = (playlistId: string) => {
+    const next = new Set(pickedPlaylistIds);
+    if (next.has(playlistId)) {
+      next.delete(playlistId);
+    } else {
+      next.add(playlistId);
+    }
+    setPickedPlaylistIds(next);
+  };
+
+  const batchSourceCount = parseSourceList(batchText).length + pickedPlaylistIds.size;
+
   const toggleArtist = (artistId: string) => {
     const newSelected = new Set(selectedArtists);
     if (newSelected.has(artistId)) {
@@ -76,8 +235,8 @@ function PlaylistFollower() {
     }
   };
 
-  const handleFollow = async () => {
-    if (selectedArtists.size === 0) {
+  const handleFollow = async (artistIds: string[]) => {
+    if (artistIds.length === 0) {
       alert('Please select at least one artist to follow');
       return;
     }
@@ -86,22 +245,24 @@ function PlaylistFollower() {
     setProgress(null);
 
     const response = await window.electronAPI.followArtists({
-      artistIds: Array.from(selectedArtists),
+      artistIds,
+      artistNames: getArtistNames(results?.unfollowedArtists ?? []),
+      source: results?.historySource,
     });
 
     if (response.success && response.data) {
-      alert(
-        `Successfully followed ${response.data.followedCount} artists!${
-          response.data.failedCount > 0
-            ? `\n${response.data.failedCount} failed to follow.`
-            : ''
-        }`
-      );
-      
+      alert(formatFollowSummary(response.data));
+      updateFollowFailures(artistIds, response.data);
+
       // Remove followed artists from results
       if (results) {
+        const requested = new Set(artistIds);
+        const notFollowed = new Set([
+          ...response.data.failedArtists,
+          ...response.data.skippedArtists,
+        ]);
         const updatedArtists = results.unfollowedArtists.filter(
-          (a) => !selectedArtists.has(a.id) || response.data!.failedArtists.includes(a.id)
+          (a) => !requested.has(a.id) || notFollowed.has(a.id)
         );
         setResults({ ...results, unfollowedArtists: updatedArtists });
       }
@@ -121,15 +282,23 @@ function PlaylistFollower() {
     }
 
     setIsFetchingRelated(true);
+    setProgress(null);
     setRelatedError(null);
     setSelectedRelatedArtists(new Set());
 
     const response = await window.electronAPI.getRelatedArtists({
       artistIds: Array.from(selectedArtists),
+      depth: relatedDepth,
     });
 
     if (response.success && response.data) {
       setRelatedArtists(response.data.artists);
+      setRelatedStrategy(response.data.strategy);
+      if (response.data.cancelled) {
+        alert(
+          `Search cancelled. Showing ${response.data.artists.length} similar artist(s) found so far.`
+        );
+      }
     } else {
       setRelatedArtists([]);
       setRelatedError(response.error ?? 'Unable to fetch related artists.');
@@ -137,6 +306,7 @@ function PlaylistFollower() {
 
     setHasFetchedRelated(true);
     setIsFetchingRelated(false);
+    setProgress(null);
   };
 
   const toggleRelatedArtist = (artistId: string) => {
@@ -157,8 +327,8 @@ function PlaylistFollower() {
     }
   };
 
-  const handleFollowRelated = async () => {
-    if (selectedRelatedArtists.size === 0) {
+  const handleFollowRelated = async (artistIds: string[]) => {
+    if (artistIds.length === 0) {
       alert('Please select at least one artist to follow');
       return;
     }
@@ -167,21 +337,24 @@ function PlaylistFollower() {
     setProgress(null);
 
     const response = await window.electronAPI.followArtists({
-      artistIds: Array.from(selectedRelatedArtists),
+      artistIds,
+      artistNames: getArtistNames(relatedArtists),
+      source: results
+        ? { ...results.historySource, label: `Recommended from ${results.historySource.label}` }
+        : undefined,
     });
 
     if (response.success && response.data) {
-      alert(
-        `Successfully followed ${response.data.followedCount} artists!${
-          response.data.failedCount > 0
-            ? `\n${response.data.failedCount} failed to follow.`
-            : ''
-        }`
-      );
-
-      const failed = new Set(response.data.failedArtists);
+      alert(formatFollowSummary(response.data));
+      updateFollowFailures(artistIds, response.data);
+
+      const requested = new Set(artistIds);
+      const notFollowed = new Set([
+        ...response.data.failedArtists,
+        ...response.data.skippedArtists,
+      ]);
       const remaining = relatedArtists.filter(
-        (artist) => failed.has(artist.id) || !selectedRelatedArtists.has(artist.id)
+        (artist) => notFollowed.has(artist.id) || !requested.has(artist.id)
       );
       setRelatedArtists(remaining);
       setSelectedRelatedArtists(new Set());
@@ -193,31 +366,134 @@ function PlaylistFollower() {
     setProgress(null);
   };
 
+  const failedResultIds = (results?.unfollowedArtists ?? [])
+    .filter((artist) => followFailures[artist.id])
+    .map((artist) => artist.id);
+  const failedRelatedIds = relatedArtists
+    .filter((artist) => followFailures[artist.id])
+    .map((artist) => artist.id);
+
+  const handleCancel = async () => {
+    const response = await window.electronAPI.cancelOperation({
+      operation: isAnalyzing
+        ? 'analyze-playlist'
+        : isFetchingRelated
+          ? 'related-artists'
+          : 'follow-artists',
+    });
+
+    if (!response.success) {
+      alert(`Error: ${response.error}`);
+    }
+  };
+
   return (
     <div className="playlist-follower">
       <div className="section-header">
-        <h2>Follow Artists from Playlist</h2>
-        <p>Paste a Spotify playlist URL to discover artists you're not following</p>
+        <h2>Follow Artists from Spotify</h2>
+        <p>
+          Paste a playlist, album, artist or track URL, or check your Liked Songs, to discover
+          artists you're not following
+        </p>
       </div>
 
-      <div className="input-section">
-        <input
-          type="text"
-          className="input"
-          placeholder="https://open.spotify.com/playlist/..."
-          value={playlistUrl}
-          onChange={(e) => setPlaylistUrl(e.target.value)}
-          disabled={isAnalyzing || isFollowing}
-        />
+      <div className="playlist-follower__modes">
         <button
-          className="btn btn-primary"
-          onClick={handleAnalyze}
-          disabled={isAnalyzing || isFollowing || !playlistUrl.trim()}
+          className={`playlist-follower__mode ${mode === 'single' ? 'active' : ''}`}
+          onClick={() => setMode('single')}
+          disabled={isAnalyzing}
         >
-          {isAnalyzing ? 'Analyzing...' : 'Analyze Playlist'}
+          Single source
+        </button>
+        <button
+          className={`playlist-follower__mode ${mode === 'batch' ? 'active' : ''}`}
+          onClick={() => setMode('batch')}
+          disabled={isAnalyzing}
+        >
+          Multiple playlists
         </button>
       </div>
 
+      {mode === 'single' ? (
+        <div className="input-section">
+          <input
+            type="text"
+            className="input"
+            placeholder="https://open.spotify.com/playlist/... or /album/, /artist/, /track/"
+            value={sourceUrl}
+            onChange={(e) => setSourceUrl(e.target.value)}
+            disabled={isAnalyzing || isFollowing}
+          />
+          <button
+            className="btn btn-primary"
+            onClick={() => handleAnalyze(sourceUrl)}
+            disabled={isAnalyzing || isFollowing || !sourceUrl.trim()}
+          >
+            {isAnalyzing ? 'Analyzing...' : 'Analyze'}
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={() => handleAnalyze(LIKED_SONGS_SOURCE)}
+            disabled={isAnalyzing || isFollowing}
+          >
+            My Liked Songs
+          </button>
+        </div>
+      ) : (
+        <div className="playlist-follower__batch">
+          <textarea
+            className="input"
+            rows={5}
+            placeholder={'Paste playlist URLs, one per line\nhttps://open.spotify.com/playlist/...'}
+            value={batchText}
+            onChange={(e) => setBatchText(e.target.value)}
+            disabled={isAnalyzing || isFollowing}
+          />
+
+          {myPlaylists === null ? (
+            <button
+              className="btn-link"
+              onClick={handleLoadMyPlaylists}
+              disabled={isLoadingPlaylists || isAnalyzing}
+            >
+              {isLoadingPlaylists ? 'Loading playlists...' : 'Choose from My Playlists'}
+            </button>
+          ) : (
+            <div className="playlist-follower__picker">
+              {myPlaylists.length === 0 && <span className="hint">You have no playlists yet.</span>}
+              {myPlaylists.map((playlist) => (
+                <label key={playlist.id} className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={pickedPlaylistIds.has(playlist.id)}
+                    onChange={() => togglePickedPlaylist(playlist.id)}
+                    disabled={isAnalyzing || isFollowing}
+                  />
+                  <span>
+                    {playlist.name}{' '}
+                    <span className="hint">
+                      by {playlist.owner.display_name} · {playlist.tracks.total} tracks
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <button
+              className="btn btn-primary"
+              onClick={handleAnalyzeBatch}
+              disabled={isAnalyzing || isFollowing || batchSourceCount === 0}
+            >
+              {isAnalyzing
+                ? 'Analyzing...'
+                : `Analyze ${batchSourceCount} Playlist${batchSourceCount !== 1 ? 's' : ''}`}
+            </button>
+          </div>
+        </div>
+      )}
+
       {progress && (
         <div className="progress-container">
           <div className="progress-bar">
@@ -229,6 +505,14 @@ function PlaylistFollower() {
           <p className="progress-text">
             {progress.message} ({progress.current}/{progress.total})
           </p>
+          {(isAnalyzing || isFollowing || isFetchingRelated) && (
+            <div className="progress-actions">
+              <button className="btn btn-secondary" onClick={handleCancel}>
+                Cancel
+              </button>
+            </div>
+          )}
+          <RequestStats active={isAnalyzing || isFollowing || isFetchingRelated} />
         </div>
       )}
 
@@ -236,8 +520,7 @@ function PlaylistFollower() {
         <div className="results-section">
           <div className="results-header">
             <h3>
-              Found {results.unfollowedArtists.length} unfollowed artists in "
-              {results.playlistName}"
+              Found {results.unfollowedArtists.length} unfollowed artists in {results.title}
             </h3>
             <div className="results-actions">
               <button className="btn-link" onClick={toggleAll}>
@@ -245,6 +528,19 @@ function PlaylistFollower() {
                   ? 'Deselect All'
                   : 'Select All'}
               </button>
+              <select
+                className="select"
+                value={relatedDepth}
+                onChange={(e) => setRelatedDepth(Number(e.target.value))}
+                disabled={isFetchingRelated}
+                title="How far to explore from the selected artists"
+              >
+                {RELATED_DEPTH_OPTIONS.map((depth) => (
+                  <option key={depth} value={depth}>
+                    {depth} hop{depth !== 1 ? 's' : ''}
+                  </option>
+                ))}
+              </select>
               <button
                 className="btn btn-secondary"
                 onClick={handleFindRelated}
@@ -252,9 +548,18 @@ function PlaylistFollower() {
               >
                 {isFetchingRelated ? 'Finding...' : 'Find Similar Artists'}
               </button>
+              {failedResultIds.length > 0 && (
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => handleFollow(failedResultIds)}
+                  disabled={isFollowing}
+                >
+                  Retry Failed ({failedResultIds.length})
+                </button>
+              )}
               <button
                 className="btn btn-primary"
-                onClick={handleFollow}
+                onClick={() => handleFollow(Array.from(selectedArtists))}
                 disabled={selectedArtists.size === 0 || isFollowing}
               >
                 Follow Selected ({selectedArtists.size})
@@ -291,8 +596,21 @@ function PlaylistFollower() {
                 <div className="artist-info">
                   <div className="artist-name">{artist.name}</div>
                   <div className="artist-frequency">
-                    Appears {artist.frequency} time{artist.frequency !== 1 ? 's' : ''} in playlist
+                    Appears {artist.frequency} time{artist.frequency !== 1 ? 's' : ''} in{' '}
+                    {results.sourceLabel}
                   </div>
+                  {artist.appearances && (
+                    <ul className="artist-appearances">
+                      {artist.appearances.map((appearance, index) => (
+                        <li key={index}>
+                          {appearance.playlistName} ({appearance.count})
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {followFailures[artist.id] && (
+                    <div className="artist-failure">Not followed: {followFailures[artist.id]}</div>
+                  )}
                   {artist.external_urls?.spotify && (
                     <a
                       href={artist.external_urls.spotify}
@@ -313,7 +631,7 @@ function PlaylistFollower() {
 
       {results && results.unfollowedArtists.length === 0 && (
         <div className="empty-state">
-          <p>You're already following all artists from this playlist!</p>
+          <p>You're already following all artists from {results.sourceLabel}!</p>
         </div>
       )}
 
@@ -328,9 +646,18 @@ function PlaylistFollower() {
                     ? 'Deselect All'
                     : 'Select All'}
                 </button>
+                {failedRelatedIds.length > 0 && (
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => handleFollowRelated(failedRelatedIds)}
+                    disabled={isFollowing}
+                  >
+                    Retry Failed ({failedRelatedIds.length})
+                  </button>
+                )}
                 <button
                   className="btn btn-primary"
-                  onClick={handleFollowRelated}
+                  onClick={() => handleFollowRelated(Array.from(selectedRelatedArtists))}
                   disabled={selectedRelatedArtists.size === 0 || isFollowing}
                 >
                   Follow Selected ({selectedRelatedArtists.size})
@@ -341,6 +668,14 @@ function PlaylistFollower() {
 
           {relatedError && <div className="related-message error">{relatedError}</div>}
 
+          {!relatedError && relatedStrategy === 'genres-and-playlists' && (
+            <div className="related-message">
+              Spotify's related-artists data isn't available for this app, so these suggestions
+              are based on shared genres and playlists you've analyzed. Analyze more playlists to
+              improve them.
+            </div>
+          )}
+
           {!relatedError && relatedArtists.length === 0 && (
             <div className="related-message">No additional artists to recommend right now.</div>
           )}
@@ -376,9 +711,15 @@ function PlaylistFollower() {
                     )}
                     <div className="artist-info">
                       <div className="artist-name">{artist.name}</div>
+                      <div className="artist-frequency">{artist.explanation}</div>
                       <div className="artist-genres">
                         {genres ? `Top genres: ${genres}` : 'Genres unavailable'}
                       </div>
+                      {followFailures[artist.id] && (
+                        <div className="artist-failure">
+                          Not followed: {followFailures[artist.id]}
+                        </div>
+                      )}
                       {artist.external_urls?.spotify && (
                         <a
                           href={artist.external_urls.spotify}
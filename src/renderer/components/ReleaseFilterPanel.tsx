@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import type { ReleaseFilters } from '@shared/types';
+import './ReleaseFilterPanel.css';
+
+interface ReleaseFilterPanelProps {
+  filters: ReleaseFilters;
+  onChange: (filters: ReleaseFilters) => void;
+  disabled: boolean;
+}
+
+const ALBUM_TYPE_OPTIONS: Array<{ value: ReleaseFilters['albumTypes'][number]; label: string }> = [
+  { value: 'album', label: 'Albums' },
+  { value: 'single', label: 'Singles & EPs' },
+  { value: 'compilation', label: 'Compilations' },
+];
+
+function parseKeywords(text: string): string[] {
+  return text
+    .split(',')
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+}
+
+function parseTrackCount(value: string): number | null {
+  return value === '' ? null : Number(value);
+}
+
+function ReleaseFilterPanel({ filters, onChange, disabled }: ReleaseFilterPanelProps) {
+  // Kept as typed so a trailing comma survives until the next keyword is entered
+  const [includeText, setIncludeText] = useState(filters.includeKeywords.join(', '));
+  const [excludeText, setExcludeText] = useState(filters.excludeKeywords.join(', '));
+
+  const toggleAlbumType = (albumType: ReleaseFilters['albumTypes'][number], checked: boolean) => {
+    const albumTypes = checked
+      ? [...filters.albumTypes, albumType]
+      : filters.albumTypes.filter((type) => type !== albumType);
+    onChange({ ...filters, albumTypes });
+  };
+
+  return (
+    <div className="release-filters">
+      <div className="release-filters__row">
+        <span className="release-filters__label">Release types:</span>
+        {ALBUM_TYPE_OPTIONS.map((option) => (
+          <label key={option.value} className="release-filters__option">
+            <input
+              type="checkbox"
+              checked={filters.albumTypes.includes(option.value)}
+              onChange={(e) => toggleAlbumType(option.value, e.target.checked)}
+              disabled={disabled}
+            />
+            <span>{option.label}</span>
+          </label>
+        ))}
+        <label className="release-filters__option">
+          <input
+            type="checkbox"
+            checked={filters.excludeExplicit}
+            onChange={(e) => onChange({ ...filters, excludeExplicit: e.target.checked })}
+            disabled={disabled}
+          />
+          <span>Skip explicit tracks</span>
+        </label>
+      </div>
+
+      <div className="release-filters__row">
+        <div className="control-group">
+          <label htmlFor="filter-exclude-keywords">Exclude titles matching:</label>
+          <input
+            id="filter-exclude-keywords"
+            type="text"
+            className="input"
+            placeholder="remix, live, karaoke, sped up"
+            value={excludeText}
+            onChange={(e) => {
+              setExcludeText(e.target.value);
+              onChange({ ...filters, excludeKeywords: parseKeywords(e.target.value) });
+            }}
+            disabled={disabled}
+          />
+        </div>
+        <div className="control-group">
+          <label htmlFor="filter-include-keywords">Only titles matching:</label>
+          <input
+            id="filter-include-keywords"
+            type="text"
+            className="input"
+            placeholder="Any title"
+            value={includeText}
+            onChange={(e) => {
+              setIncludeText(e.target.value);
+              onChange({ ...filters, includeKeywords: parseKeywords(e.target.value) });
+            }}
+            disabled={disabled}
+          />
+        </div>
+        <div className="control-group">
+          <label htmlFor="filter-min-tracks">Min tracks:</label>
+          <input
+            id="filter-min-tracks"
+            type="number"
+            className="input small-input"
+            min="1"
+            value={filters.minTracks ?? ''}
+            onChange={(e) => onChange({ ...filters, minTracks: parseTrackCount(e.target.value) })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="control-group">
+          <label htmlFor="filter-max-tracks">Max tracks:</label>
+          <input
+            id="filter-max-tracks"
+            type="number"
+            className="input small-input"
+            min="1"
+            value={filters.maxTracks ?? ''}
+            onChange={(e) => onChange({ ...filters, maxTracks: parseTrackCount(e.target.value) })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <span className="hint">
+        Separate keywords with commas. Keywords match whole words; use * as a wildcard.
+      </span>
+
+      {filters.excludedArtists.length > 0 && (
+        <div className="release-filters__row">
+          <span className="release-filters__label">Excluded artists:</span>
+          {filters.excludedArtists.map((artist) => (
+            <span key={artist.id} className="release-filters__chip">
+              {artist.name}
+              <button
+                type="button"
+                className="release-filters__chip-remove"
+                title={`Include ${artist.name} again`}
+                onClick={() =>
+                  onChange({
+                    ...filters,
+                    excludedArtists: filters.excludedArtists.filter((other) => other.id !== artist.id),
+                  })
+                }
+                disabled={disabled}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ReleaseFilterPanel;
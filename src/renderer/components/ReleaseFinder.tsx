@@ -1,23 +1,97 @@
-import { useState, useEffect } from 'react';
-import type { ReleaseWithArtist, ProgressUpdate } from '@shared/types';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type {
+  CancellableOperation,
+  CreatePlaylistResponse,
+  JobInfo,
+  OptionalReleaseGroup,
+  ReleaseArtistRole,
+  ReleaseFilters,
+  ReleaseTrack,
+  ReleaseWithArtist,
+  ScanReleasesBatch,
+  ScanReleasesResponse,
+  ProgressUpdate,
+  RollingPlaylistSettings,
+} from '@shared/types';
 import { DAYS_OPTIONS, DEFAULT_DAYS_BACK } from '@shared/constants';
+import ReleaseFilterPanel from './ReleaseFilterPanel';
+import RequestStats from './RequestStats';
+import TrackPreview from './TrackPreview';
 import './ReleaseFinder.css';
 
+const RELEASE_SECTIONS: Array<{ role: ReleaseArtistRole; title: string }> = [
+  { role: 'primary', title: 'Releases' },
+  { role: 'appears_on', title: 'Appears on' },
+  { role: 'compilation', title: 'Compilations' },
+];
+
+type ReleaseSortKey = 'newest' | 'oldest' | 'artist' | 'name';
+
+const RELEASE_SORT_OPTIONS: Array<{ value: ReleaseSortKey; label: string }> = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'artist', label: 'Artist' },
+  { value: 'name', label: 'Title' },
+];
+
+const compareReleases = (a: ReleaseWithArtist, b: ReleaseWithArtist, sortKey: ReleaseSortKey) => {
+  if (sortKey === 'artist') {
+    return a.artist_name.localeCompare(b.artist_name) || a.name.localeCompare(b.name);
+  }
+  if (sortKey === 'name') {
+    return a.name.localeCompare(b.name);
+  }
+  // Release dates are ISO prefixes (YYYY, YYYY-MM or YYYY-MM-DD), so they sort as strings
+  const byDate = a.release_date.localeCompare(b.release_date);
+  return sortKey === 'oldest' ? byDate : -byDate;
+};
+
+const OPTIONAL_GROUP_OPTIONS: Array<{ group: OptionalReleaseGroup; label: string }> = [
+  { group: 'appears_on', label: 'Include features ("appears on")' },
+  { group: 'compilation', label: 'Include compilations' },
+];
+
 function ReleaseFinder() {
   const [daysBack, setDaysBack] = useState(DEFAULT_DAYS_BACK);
   const [maxArtists, setMaxArtists] = useState(5); // Default to 5 for test mode
   const [isScanning, setIsScanning] = useState(false);
   const [isCreatingPlaylist, setIsCreatingPlaylist] = useState(false);
+  const [isLoadingTracks, setIsLoadingTracks] = useState(false);
+  const [reviewTracks, setReviewTracks] = useState(false);
+  const [tracksByRelease, setTracksByRelease] = useState<Record<string, ReleaseTrack[]> | null>(
+    null
+  );
+  const [selectedTrackIds, setSelectedTrackIds] = useState<Set<string>>(new Set());
   const [progress, setProgress] = useState<ProgressUpdate | null>(null);
   const [releases, setReleases] = useState<ReleaseWithArtist[]>([]);
+  const [releaseSort, setReleaseSort] = useState<ReleaseSortKey>('newest');
+  // Artists checked so far while a scan streams its results in
+  const [scanCounts, setScanCounts] = useState<{ checked: number; total: number } | null>(null);
+  const [newReleaseIds, setNewReleaseIds] = useState<Set<string>>(new Set());
+  const [previousScanAt, setPreviousScanAt] = useState<number | null>(null);
+  const [extraMarkets, setExtraMarkets] = useState<string[]>([]);
+  const [useExtraMarkets, setUseExtraMarkets] = useState(false);
+  const [includeGroups, setIncludeGroups] = useState<OptionalReleaseGroup[]>([]);
+  const [scannedMarkets, setScannedMarkets] = useState<string[]>([]);
+  const [rollingPlaylist, setRollingPlaylist] = useState<RollingPlaylistSettings | null>(null);
+  const [filters, setFilters] = useState<ReleaseFilters | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [filteredOut, setFilteredOut] = useState(0);
   const [playlistName, setPlaylistName] = useState('');
   const [testMode, setTestMode] = useState(false);
   const [canCancel, setCanCancel] = useState(false);
+  const [wasCancelled, setWasCancelled] = useState(false);
   const [playlistSummary, setPlaylistSummary] = useState<{
     name: string;
     url?: string;
     tracksAdded?: number;
+    tracksRemoved?: number;
+    duplicatesSkipped?: number;
+    explicitSkipped?: number;
   } | null>(null);
+  // Operations whose results are awaited by this view rather than followed through job updates
+  const startedHere = useRef(new Set<CancellableOperation>());
+  const useRollingPlaylist = Boolean(rollingPlaylist?.enabled);
 
   const generateDefaultPlaylistName = () => {
     const date = new Date().toISOString().split('T')[0];
@@ -28,14 +102,74 @@ function ReleaseFinder() {
     const unsubscribeScan = window.electronAPI.onScanProgress((p: ProgressUpdate) => {
       setProgress(p);
     });
+    const unsubscribeTracks = window.electronAPI.onReleaseTracksProgress((p: ProgressUpdate) => {
+      setProgress(p);
+    });
     const unsubscribeCreate = window.electronAPI.onCreatePlaylistProgress((p: ProgressUpdate) => {
       setProgress(p);
     });
+    const unsubscribeBatch = window.electronAPI.onScanBatch((batch: ScanReleasesBatch) => {
+      setReleases((current) => {
+        const releasesById = new Map(current.map((release) => [release.id, release]));
+        for (const release of batch.releases) {
+          releasesById.set(release.id, release);
+        }
+        return Array.from(releasesById.values());
+      });
+      setNewReleaseIds((current) => new Set([...current, ...batch.newReleaseIds]));
+      setFilteredOut(batch.filteredOut);
+      setScanCounts({ checked: batch.artistsChecked, total: batch.totalArtists });
+    });
+    const unsubscribeJobs = window.electronAPI.onJobUpdated((job: JobInfo) => {
+      followJob(job);
+    });
 
     return () => {
       unsubscribeScan();
+      unsubscribeBatch();
+      unsubscribeTracks();
       unsubscribeCreate();
+      unsubscribeJobs();
     };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Scans keep running in the main process while another tab is open, so pick up the
+  // latest one (and the playlist created from it) when coming back
+  useEffect(() => {
+    window.electronAPI.listJobs().then(async (response) => {
+      if (!response.success || !response.data) {
+        return;
+      }
+
+      // Jobs are listed newest first
+      const latest = (type: CancellableOperation) =>
+        response.data?.find((job) => job.origin === 'app' && job.type === type);
+      const scanJob = latest('scan-releases');
+      const createJob = latest('create-playlist');
+      if (!scanJob) {
+        return;
+      }
+
+      const scan = await followJob(scanJob);
+      if (createJob && createJob.createdAt >= scanJob.createdAt) {
+        await followJob(createJob);
+      } else if (scan && !scan.cancelled && scan.releases.length > 0) {
+        // No playlist was made from these releases, so offer to pick tracks for one
+        setReviewTracks(true);
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    window.electronAPI.getSettings().then((response) => {
+      if (response.success && response.data) {
+        setExtraMarkets(response.data.settings.extraScanMarkets);
+        setRollingPlaylist(response.data.settings.rollingPlaylist);
+        setFilters(response.data.settings.releaseFilters);
+      }
+    });
   }, []);
 
   useEffect(() => {
@@ -45,40 +179,168 @@ function ReleaseFinder() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const saveFilters = async (next: ReleaseFilters): Promise<ReleaseFilters | null> => {
+    const response = await window.electronAPI.updateSettings({ releaseFilters: next });
+    if (!response.success || !response.data) {
+      alert(`Error: ${response.error}`);
+      return null;
+    }
+    setFilters(response.data.settings.releaseFilters);
+    return response.data.settings.releaseFilters;
+  };
+
+  const handleExcludeArtist = async (release: ReleaseWithArtist) => {
+    const artist = release.artists[0];
+    if (!filters || !artist) {
+      return;
+    }
+
+    await saveFilters({
+      ...filters,
+      excludedArtists: [...filters.excludedArtists, { id: artist.id, name: artist.name }],
+    });
+  };
+
+  const applyScanResult = (result: ScanReleasesResponse) => {
+    setReleases(result.releases);
+    setNewReleaseIds(new Set(result.newReleases.map((release) => release.id)));
+    setPreviousScanAt(result.previousScanAt);
+    setScannedMarkets(result.markets);
+    setFilteredOut(result.filteredOut);
+    setWasCancelled(Boolean(result.cancelled));
+  };
+
+  const applyPlaylistResult = (result: CreatePlaylistResponse, name: string) => {
+    setWasCancelled(Boolean(result.cancelled));
+    setPlaylistSummary(
+      result.playlistId
+        ? {
+            name,
+            url: result.playlistUrl,
+            tracksAdded: result.tracksAdded,
+            tracksRemoved: result.tracksRemoved,
+            duplicatesSkipped: result.duplicatesSkipped,
+            explicitSkipped: result.explicitSkipped,
+          }
+        : null
+    );
+  };
+
+  /**
+   * Mirrors a scan or playlist job started by an earlier visit to this tab. Resolves to
+   * the scan result once a finished scan has been applied.
+   */
+  const followJob = async (job: JobInfo): Promise<ScanReleasesResponse | null> => {
+    if (job.origin !== 'app' || startedHere.current.has(job.type)) {
+      return null;
+    }
+
+    const active = job.status === 'queued' || job.status === 'running';
+    if (job.type === 'scan-releases') {
+      setIsScanning(active);
+    } else if (job.type === 'create-playlist') {
+      setIsCreatingPlaylist(active);
+    } else {
+      return null;
+    }
+    setCanCancel(active);
+    if (active) {
+      if (job.progress) {
+        setProgress(job.progress);
+      }
+      return null;
+    }
+
+    setProgress(null);
+    if (job.status === 'failed') {
+      return null;
+    }
+    const response = await window.electronAPI.getJob({ jobId: job.id });
+    if (!response.success || !response.data?.result) {
+      return null;
+    }
+
+    if (job.type === 'create-playlist') {
+      applyPlaylistResult(response.data.result as CreatePlaylistResponse, job.label);
+      return null;
+    }
+    const scan = response.data.result as ScanReleasesResponse;
+    applyScanResult(scan);
+    return scan;
+  };
+
   const handleScan = async () => {
+    // Persist the filters first so invalid values are reported before any requests go out
+    const activeFilters = filters ? await saveFilters(filters) : null;
+    if (filters && !activeFilters) {
+      return;
+    }
+
     setIsScanning(true);
     setCanCancel(true);
     setProgress(null);
     setReleases([]);
+    setScanCounts(null);
+    setNewReleaseIds(new Set());
+    setPreviousScanAt(null);
+    setScannedMarkets([]);
+    setFilteredOut(0);
+    setTracksByRelease(null);
+    setSelectedTrackIds(new Set());
     setPlaylistSummary(null);
+    setWasCancelled(false);
 
     const effectiveMaxArtists = testMode && maxArtists > 0 ? maxArtists : 0;
     console.log('[ReleaseFinder] Scanning with params:', { daysBack, testMode, maxArtists, effectiveMaxArtists });
 
+    startedHere.current.add('scan-releases');
     const response = await window.electronAPI.scanReleases({
       daysBack,
       maxArtists: effectiveMaxArtists, // 0 means all artists
+      extraMarkets: useExtraMarkets ? extraMarkets : [],
+      filters: activeFilters ?? undefined,
+      includeGroups,
     });
+    startedHere.current.delete('scan-releases');
 
     if (response.success && response.data) {
       console.log('[ReleaseFinder] Scan results:', {
         totalReleases: response.data.releases.length,
         requestedMaxArtists: effectiveMaxArtists
       });
-      setReleases(response.data.releases);
+      applyScanResult(response.data);
 
-      if (response.data.releases.length === 0) {
-        alert('No new releases found for the selected timeframe.');
+      if (response.data.cancelled) {
+        alert(
+          `Scan cancelled after checking ${response.data.totalArtistsChecked} artists.\n\n${response.data.releases.length} release(s) found so far. No playlist was created.`
+        );
         setIsScanning(false);
         setCanCancel(false);
+        setProgress(null);
         return;
       }
 
-      const defaultName = generateDefaultPlaylistName();
-      const finalPlaylistName = playlistName.trim() || defaultName;
-      setPlaylistName(finalPlaylistName);
+      if (response.data.releases.length === 0) {
+        alert(
+          response.data.filteredOut
+            ? `No releases left after filtering (${response.data.filteredOut} hidden by your filters).`
+            : 'No new releases found for the selected timeframe.'
+        );
+        setIsScanning(false);
+        setCanCancel(false);
+        return;
+      }
 
-      await createPlaylistFromReleases(response.data.releases, finalPlaylistName);
+      if (reviewTracks) {
+        // The playlist is created from the preview once tracks have been picked
+        setProgress(null);
+      } else {
+        await createPlaylistFromReleases(
+          response.data.releases,
+          resolvePlaylistName(),
+          activeFilters ?? undefined
+        );
+      }
     } else {
       alert(`Error: ${response.error}`);
     }
@@ -88,29 +350,115 @@ function ReleaseFinder() {
     // Don't clear progress here - keep it visible across tabs
   };
 
-  const createPlaylistFromReleases = async (releaseData: ReleaseWithArtist[], finalName: string) => {
+  const resolvePlaylistName = (): string => {
+    if (useRollingPlaylist && rollingPlaylist) {
+      return rollingPlaylist.playlistName;
+    }
+
+    const finalName = playlistName.trim() || generateDefaultPlaylistName();
+    setPlaylistName(finalName);
+    return finalName;
+  };
+
+  const handleLoadTracks = async () => {
+    setIsLoadingTracks(true);
+    setCanCancel(true);
+    setProgress(null);
+
+    const response = await window.electronAPI.getReleaseTracks({
+      releaseIds: releases.map((release) => release.id),
+    });
+
+    if (response.success && response.data) {
+      const loaded = response.data.tracksByRelease;
+      setTracksByRelease(loaded);
+      setSelectedTrackIds(
+        new Set(
+          Object.values(loaded)
+            .flat()
+            .filter((track) => !(filters?.excludeExplicit && track.explicit))
+            .map((track) => track.id)
+        )
+      );
+      if (response.data.cancelled) {
+        alert('Loading tracks was cancelled - only some releases have their tracks listed.');
+      }
+    } else {
+      alert(`Error: ${response.error}`);
+    }
+
+    setIsLoadingTracks(false);
+    setCanCancel(false);
+    setProgress(null);
+  };
+
+  const handleExportSelected = async () => {
+    if (!tracksByRelease) {
+      return;
+    }
+
+    // Keep the order the tracks are shown in
+    const trackIds = releases
+      .flatMap((release) => tracksByRelease[release.id] ?? [])
+      .map((track) => track.id)
+      .filter((trackId) => selectedTrackIds.has(trackId));
+
+    await createPlaylistFromReleases(
+      releases,
+      resolvePlaylistName(),
+      filters ?? undefined,
+      trackIds
+    );
+  };
+
+  const createPlaylistFromReleases = async (
+    releaseData: ReleaseWithArtist[],
+    finalName: string,
+    playlistFilters?: ReleaseFilters,
+    trackIds?: string[]
+  ) => {
     setIsCreatingPlaylist(true);
     setCanCancel(true);
     setProgress(null);
 
+    startedHere.current.add('create-playlist');
     const response = await window.electronAPI.createPlaylist({
       playlistName: finalName,
       releases: releaseData,
       isPublic: false,
+      target: useRollingPlaylist ? 'rolling' : 'new',
+      filters: playlistFilters,
+      trackIds,
     });
-
-    if (response.success && response.data) {
+    startedHere.current.delete('create-playlist');
+
+    if (response.success && response.data?.cancelled) {
+      setProgress(null);
+      applyPlaylistResult(response.data, finalName);
+      if (response.data.playlistId) {
+        alert(
+          `Playlist creation cancelled.\n\n${response.data.tracksAdded} tracks were added to ${finalName} before cancelling.`
+        );
+      } else {
+        alert('Playlist creation cancelled before the playlist was created.');
+      }
+    } else if (response.success && response.data) {
+      const duplicateNote = response.data.duplicatesSkipped
+        ? ` (${response.data.duplicatesSkipped} duplicates skipped)`
+        : '';
+      const explicitNote = response.data.explicitSkipped
+        ? ` (${response.data.explicitSkipped} explicit tracks skipped)`
+        : '';
+      const removedNote = useRollingPlaylist
+        ? `\n${response.data.tracksRemoved} old tracks removed`
+        : '';
       alert(
-        `Playlist created successfully!\n\n${response.data.tracksAdded} tracks added\n${finalName}\n\nOpening in Spotify...`
+        `${useRollingPlaylist ? 'Playlist updated' : 'Playlist created'} successfully!\n\n${response.data.tracksAdded} tracks added${duplicateNote}${explicitNote}${removedNote}\n${finalName}\n\nOpening in Spotify...`
       );
       if (response.data.playlistUrl) {
         window.open(response.data.playlistUrl, '_blank');
       }
-      setPlaylistSummary({
-        name: finalName,
-        url: response.data.playlistUrl,
-        tracksAdded: response.data.tracksAdded,
-      });
+      applyPlaylistResult(response.data, finalName);
     } else {
       alert(`Error: ${response.error}`);
       setPlaylistSummary(null);
@@ -120,25 +468,126 @@ function ReleaseFinder() {
     setCanCancel(false);
   };
 
-  const handleCancel = () => {
-    // Since operations run in main process, we'll just hide the UI state
-    setIsScanning(false);
-    setIsCreatingPlaylist(false);
+  const handleCancel = async () => {
     setCanCancel(false);
-    setProgress(null);
-    alert('Operation cancelled. Note: Background process may still complete.');
+    setProgress((current) => (current ? { ...current, message: 'Cancelling...' } : current));
+
+    // The pending scan/create call resolves with a partial result once the main process stops
+    const response = await window.electronAPI.cancelOperation({
+      operation: isCreatingPlaylist
+        ? 'create-playlist'
+        : isLoadingTracks
+          ? 'release-tracks'
+          : 'scan-releases',
+    });
+
+    if (!response.success) {
+      alert(`Error: ${response.error}`);
+    }
   };
 
-  const formatDate = (dateStr: string): string => {
-    const date = new Date(dateStr);
+  const formatDate = (release: ReleaseWithArtist): string => {
+    if (release.release_date_precision === 'year') {
+      return release.release_date.slice(0, 4);
+    }
+
+    const date = new Date(release.release_date);
     return date.toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'short',
-      day: 'numeric',
+      day: release.release_date_precision === 'month' ? undefined : 'numeric',
+      timeZone: release.release_date_precision === 'month' ? 'UTC' : undefined,
     });
   };
 
-  const isLoading = isScanning || isCreatingPlaylist;
+  const sortedReleases = useMemo(
+    () => [...releases].sort((a, b) => compareReleases(a, b, releaseSort)),
+    [releases, releaseSort]
+  );
+
+  const isLoading = isScanning || isCreatingPlaylist || isLoadingTracks;
+  const hasMultipleSections =
+    new Set(releases.map((release) => release.artist_role)).size > 1;
+
+  const renderReleaseCard = (release: ReleaseWithArtist) => (
+    <div key={release.id} className="release-card">
+      {release.images && release.images[0] && (
+        <img
+          src={release.images[0].url}
+          alt={release.name}
+          className="release-image"
+        />
+      )}
+      <div className="release-info">
+        <div className="release-name">
+          {release.name}
+          {previousScanAt && newReleaseIds.has(release.id) && (
+            <span className="release-badge release-badge--new">NEW</span>
+          )}
+          {release.fuzzy_release_date && (
+            <span
+              className="release-badge release-badge--fuzzy"
+              title={`Spotify only lists the ${release.release_date_precision} of this release`}
+            >
+              {release.release_date_precision === 'year' ? 'YEAR ONLY' : 'MONTH ONLY'}
+            </span>
+          )}
+        </div>
+        <div className="release-artist">
+        {release.artist_role === 'primary'
+          ? release.artist_name
+          : `${release.artist_name} · on a release by ${release.artists
+              .map((artist) => artist.name)
+              .join(', ')}`}
+      </div>
+        <div className="release-meta">
+          <span className="release-type">{release.album_type.toUpperCase()}</span>
+          <span className="release-separator">•</span>
+          <span className="release-date">{formatDate(release)}</span>
+          <span className="release-separator">•</span>
+          <span className="release-tracks">{release.total_tracks} track{release.total_tracks !== 1 ? 's' : ''}</span>
+        </div>
+        {release.external_urls?.spotify && (
+          <a
+            href={release.external_urls.spotify}
+            className="release-link"
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            View on Spotify →
+          </a>
+        )}
+        {filters && release.artists[0] && (
+          <button
+            type="button"
+            className="release-exclude-btn"
+            onClick={() => handleExcludeArtist(release)}
+            disabled={
+              isLoading ||
+              filters.excludedArtists.some((artist) => artist.id === release.artists[0].id)
+            }
+          >
+            Exclude {release.artists[0].name} from future scans
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  const handleRollingToggle = async (enabled: boolean) => {
+    if (!rollingPlaylist) {
+      return;
+    }
+
+    const response = await window.electronAPI.updateSettings({
+      rollingPlaylist: { ...rollingPlaylist, enabled },
+    });
+    if (response.success && response.data) {
+      setRollingPlaylist(response.data.settings.rollingPlaylist);
+    } else {
+      alert(`Error: ${response.error}`);
+    }
+  };
 
   return (
     <div className="release-finder">
@@ -169,6 +618,7 @@ function ReleaseFinder() {
               </button>
             )}
           </div>
+          <RequestStats active={canCancel} />
         </div>
       )}
 
@@ -202,6 +652,52 @@ function ReleaseFinder() {
           </label>
         </div>
 
+        <div className="control-group">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={reviewTracks}
+              onChange={(e) => setReviewTracks(e.target.checked)}
+              disabled={isLoading}
+            />
+            <span>Review tracks before creating the playlist</span>
+          </label>
+        </div>
+
+        {extraMarkets.length > 0 && (
+          <div className="control-group">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={useExtraMarkets}
+                onChange={(e) => setUseExtraMarkets(e.target.checked)}
+                disabled={isLoading}
+              />
+              <span>Also scan {extraMarkets.join(', ')}</span>
+            </label>
+          </div>
+        )}
+
+        {OPTIONAL_GROUP_OPTIONS.map((option) => (
+          <div key={option.group} className="control-group">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={includeGroups.includes(option.group)}
+                onChange={(e) =>
+                  setIncludeGroups((current) =>
+                    e.target.checked
+                      ? [...current, option.group]
+                      : current.filter((group) => group !== option.group)
+                  )
+                }
+                disabled={isLoading}
+              />
+              <span>{option.label}</span>
+            </label>
+          </div>
+        ))}
+
         {testMode && (
           <div className="control-group">
             <label htmlFor="max-artists">Max artists:</label>
@@ -220,26 +716,74 @@ function ReleaseFinder() {
           </div>
         )}
 
-        <div className="control-group">
-          <label htmlFor="playlist-name">Playlist name:</label>
-          <input
-            id="playlist-name"
-            type="text"
-            className="input"
-            placeholder="New Releases - YYYY-MM-DD"
-            value={playlistName}
-            onChange={(e) => setPlaylistName(e.target.value)}
-            disabled={isLoading}
-          />
-          <span className="hint">Playlist will be created automatically after scan</span>
-        </div>
+        {rollingPlaylist && (
+          <div className="control-group">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={useRollingPlaylist}
+                onChange={(e) => handleRollingToggle(e.target.checked)}
+                disabled={isLoading}
+              />
+              <span>Update rolling playlist</span>
+            </label>
+          </div>
+        )}
+
+        {useRollingPlaylist && rollingPlaylist ? (
+          <div className="control-group">
+            <label>Rolling playlist:</label>
+            <span className="hint">
+              New tracks go to "{rollingPlaylist.playlistName}"; tracks older than{' '}
+              {rollingPlaylist.retentionDays} days are removed. Change this under Settings.
+            </span>
+          </div>
+        ) : (
+          <div className="control-group">
+            <label htmlFor="playlist-name">Playlist name:</label>
+            <input
+              id="playlist-name"
+              type="text"
+              className="input"
+              placeholder="New Releases - YYYY-MM-DD"
+              value={playlistName}
+              onChange={(e) => setPlaylistName(e.target.value)}
+              disabled={isLoading}
+            />
+            <span className="hint">
+              {reviewTracks
+                ? 'Playlist will be created from the tracks you export'
+                : 'Playlist will be created automatically after scan'}
+            </span>
+          </div>
+        )}
+
+        {filters && (
+          <div className="control-group">
+            <button
+              type="button"
+              className="btn-link"
+              onClick={() => setShowFilters(!showFilters)}
+            >
+              {showFilters ? 'Hide filters' : 'Filters'}
+            </button>
+          </div>
+        )}
+
+        {filters && showFilters && (
+          <ReleaseFilterPanel filters={filters} onChange={setFilters} disabled={isLoading} />
+        )}
 
         <button
           className="btn btn-primary"
           onClick={handleScan}
           disabled={isLoading}
         >
-          {isScanning || isCreatingPlaylist ? 'Processing...' : 'Scan & Create Playlist'}
+          {isLoading
+            ? 'Processing...'
+            : reviewTracks
+              ? 'Scan for New Releases'
+              : 'Scan & Create Playlist'}
         </button>
       </div>
 
@@ -249,45 +793,101 @@ function ReleaseFinder() {
             <h3>
               Found {releases.length} new release{releases.length !== 1 ? 's' : ''}
             </h3>
+            <div className="results-actions">
+              <select
+                className="select"
+                value={releaseSort}
+                onChange={(e) => setReleaseSort(e.target.value as ReleaseSortKey)}
+              >
+                {RELEASE_SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    Sort: {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {previousScanAt && (
+              <p className="results-subtitle">
+                <strong>{newReleaseIds.size}</strong> new since your last scan on{' '}
+                {new Date(previousScanAt).toLocaleString()}
+              </p>
+            )}
+            {filteredOut > 0 && (
+              <p className="results-subtitle">
+                {filteredOut} release{filteredOut !== 1 ? 's' : ''} hidden by your filters
+              </p>
+            )}
+            {scannedMarkets.length > 1 && (
+              <p className="results-subtitle">
+                Merged results from markets: {scannedMarkets.join(', ')}
+              </p>
+            )}
             <p className="results-subtitle">
-              Playlist <strong>{playlistSummary?.name || playlistName}</strong> was created automatically with these releases.
+              {isScanning && !isCreatingPlaylist && !playlistSummary ? (
+                <>
+                  Still scanning
+                  {scanCounts &&
+                    ` (${scanCounts.checked} of ${scanCounts.total} artists checked)`}{' '}
+                  - more releases will appear as they are found.
+                </>
+              ) : wasCancelled ? (
+                <>Operation was cancelled - showing partial results.</>
+              ) : reviewTracks && !playlistSummary ? (
+                <>Load the tracks below and pick the ones to export to a playlist.</>
+              ) : (
+                <>
+                  Playlist <strong>{playlistSummary?.name || playlistName}</strong> was created automatically with these releases.
+                </>
+              )}
             </p>
           </div>
 
-          <div className="release-list">
-            {releases.map((release) => (
-              <div key={release.id} className="release-card">
-                {release.images && release.images[0] && (
-                  <img
-                    src={release.images[0].url}
-                    alt={release.name}
-                    className="release-image"
-                  />
+          {RELEASE_SECTIONS.map((section) => {
+            const sectionReleases = sortedReleases.filter(
+              (release) => release.artist_role === section.role
+            );
+            if (sectionReleases.length === 0) {
+              return null;
+            }
+
+            return (
+              <div key={section.role} className="release-section">
+                {hasMultipleSections && (
+                  <h4 className="release-section-title">
+                    {section.title} ({sectionReleases.length})
+                  </h4>
                 )}
-                <div className="release-info">
-                  <div className="release-name">{release.name}</div>
-                  <div className="release-artist">{release.artist_name}</div>
-                  <div className="release-meta">
-                    <span className="release-type">{release.album_type.toUpperCase()}</span>
-                    <span className="release-separator">•</span>
-                    <span className="release-date">{formatDate(release.release_date)}</span>
-                    <span className="release-separator">•</span>
-                    <span className="release-tracks">{release.total_tracks} track{release.total_tracks !== 1 ? 's' : ''}</span>
-                  </div>
-                  {release.external_urls?.spotify && (
-                    <a
-                      href={release.external_urls.spotify}
-                      className="release-link"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                    >
-                      View on Spotify →
-                    </a>
-                  )}
-                </div>
+                <div className="release-list">{sectionReleases.map(renderReleaseCard)}</div>
               </div>
-            ))}
-          </div>
+            );
+          })}
+
+          {reviewTracks && !playlistSummary && (
+            <div className="playlist-creator">
+              {tracksByRelease ? (
+                <>
+                  <button
+                    className="btn btn-primary"
+                    onClick={handleExportSelected}
+                    disabled={isLoading || selectedTrackIds.size === 0}
+                  >
+                    Export {selectedTrackIds.size} Track{selectedTrackIds.size !== 1 ? 's' : ''}
+                  </button>
+                  <TrackPreview
+                    releases={releases}
+                    tracksByRelease={tracksByRelease}
+                    selectedTrackIds={selectedTrackIds}
+                    onSelectionChange={setSelectedTrackIds}
+                    disabled={isLoading}
+                  />
+                </>
+              ) : (
+                <button className="btn btn-primary" onClick={handleLoadTracks} disabled={isLoading}>
+                  Load Tracks for Preview & Selection
+                </button>
+              )}
+            </div>
+          )}
 
           {playlistSummary && (
             <div className="playlist-creator">
@@ -295,6 +895,15 @@ function ReleaseFinder() {
                 <p>
                   Added <strong>{playlistSummary.tracksAdded ?? releases.length}</strong> tracks to playlist{' '}
                   <strong>{playlistSummary.name}</strong>.
+                  {Boolean(playlistSummary.duplicatesSkipped) && (
+                    <> Skipped {playlistSummary.duplicatesSkipped} duplicate tracks.</>
+                  )}
+                  {Boolean(playlistSummary.explicitSkipped) && (
+                    <> Skipped {playlistSummary.explicitSkipped} explicit tracks.</>
+                  )}
+                  {Boolean(playlistSummary.tracksRemoved) && (
+                    <> Removed {playlistSummary.tracksRemoved} old tracks.</>
+                  )}
                 </p>
                 {playlistSummary.url && (
                   <a
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import type { RequestSchedulerStats } from '@shared/types';
+import './RequestStats.css';
+
+interface RequestStatsProps {
+  active: boolean;
+}
+
+const POLL_INTERVAL_MS = 1000;
+
+function RequestStats({ active }: RequestStatsProps) {
+  const [stats, setStats] = useState<RequestSchedulerStats | null>(null);
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+
+    let disposed = false;
+    const poll = async () => {
+      const result = await window.electronAPI.getSchedulerStats();
+      if (!disposed && result.success && result.data) {
+        setStats(result.data);
+      }
+    };
+
+    poll();
+    const interval = window.setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      disposed = true;
+      window.clearInterval(interval);
+    };
+  }, [active]);
+
+  if (!active || !stats) {
+    return null;
+  }
+
+  const longestBackoff = stats.backoffEndpoints.reduce(
+    (longest, entry) => Math.max(longest, entry.retryInMs),
+    0
+  );
+
+  return (
+    <div className="request-stats">
+      <span>
+        Queue: {stats.queueDepth.interactive} interactive · {stats.queueDepth.bulk} bulk
+      </span>
+      <span>
+        Rate: {stats.observedRatePerSecond}/s (limit {stats.allowedRatePerSecond}/s)
+      </span>
+      <span className={stats.rateLimitHits > 0 ? 'request-stats__warning' : undefined}>
+        429s: {stats.rateLimitHits}
+      </span>
+      {longestBackoff > 0 && (
+        <span className="request-stats__warning">
+          Backing off {stats.backoffEndpoints.map((entry) => entry.endpoint).join(', ')} for{' '}
+          {Math.ceil(longestBackoff / 1000)}s
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default RequestStats;
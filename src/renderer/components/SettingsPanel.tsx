@@ -0,0 +1,573 @@
+import { useEffect, useState } from 'react';
+import type {
+  AppSettings,
+  AutomationApiSettings,
+  AutomationApiStatus,
+  DuplicateTrackPreference,
+  FuzzyDatePolicy,
+  RollingPlaylistSettings,
+  ScanScheduleFrequency,
+  ScanScheduleSettings,
+  ScanScheduleStatus,
+  SpotifyPlaylist,
+  UpdateSettingsRequest,
+} from '@shared/types';
+import './SettingsPanel.css';
+
+const FUZZY_DATE_POLICY_OPTIONS: Array<{ value: FuzzyDatePolicy; label: string }> = [
+  { value: 'overlap', label: 'Include if the month/year overlaps the scan window' },
+  { value: 'start', label: 'Treat as the first day of the month/year' },
+  { value: 'end', label: 'Treat as the last day of the month/year' },
+];
+
+const DUPLICATE_PREFERENCE_OPTIONS: Array<{ value: DuplicateTrackPreference; label: string }> = [
+  { value: 'album', label: 'Keep the album version' },
+  { value: 'single', label: 'Keep the single version' },
+];
+
+const SCHEDULE_FREQUENCY_OPTIONS: Array<{ value: ScanScheduleFrequency; label: string }> = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekly', label: 'Once a week' },
+];
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const describeScheduleStatus = (status: ScanScheduleStatus): string => {
+  const parts: string[] = [];
+  if (status.running) {
+    parts.push('A scheduled scan is running now.');
+  } else if (status.nextRunAt) {
+    parts.push(`Next scan: ${new Date(status.nextRunAt).toLocaleString()}.`);
+  }
+
+  const { lastRun } = status;
+  if (lastRun) {
+    const when = new Date(lastRun.startedAt).toLocaleString();
+    parts.push(
+      lastRun.succeeded
+        ? `Last scan ${when}: ${lastRun.releasesFound} release(s), ${lastRun.newReleases} new.`
+        : `Last scan ${when} failed: ${lastRun.error ?? 'unknown error'}.`
+    );
+  } else {
+    parts.push('No scheduled scan has run yet.');
+  }
+  return parts.join(' ');
+};
+
+const parseMarketList = (value: string): string[] =>
+  value
+    .split(/[\s,]+/)
+    .map((market) => market.trim().toUpperCase())
+    .filter(Boolean);
+
+function SettingsPanel() {
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [accountMarket, setAccountMarket] = useState<string | null>(null);
+  const [marketInput, setMarketInput] = useState('');
+  const [extraMarketsInput, setExtraMarketsInput] = useState('');
+  const [rollingDraft, setRollingDraft] = useState<RollingPlaylistSettings | null>(null);
+  const [scheduleDraft, setScheduleDraft] = useState<ScanScheduleSettings | null>(null);
+  const [scheduleStatus, setScheduleStatus] = useState<ScanScheduleStatus | null>(null);
+  const [isRunningSchedule, setIsRunningSchedule] = useState(false);
+  const [automationDraft, setAutomationDraft] = useState<AutomationApiSettings | null>(null);
+  const [automationStatus, setAutomationStatus] = useState<AutomationApiStatus | null>(null);
+  const [ownedPlaylists, setOwnedPlaylists] = useState<SpotifyPlaylist[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const applySettings = (next: AppSettings) => {
+    setSettings(next);
+    setMarketInput(next.marketOverride ?? '');
+    setExtraMarketsInput(next.extraScanMarkets.join(', '));
+    setRollingDraft(next.rollingPlaylist);
+    setScheduleDraft(next.scanSchedule);
+    setAutomationDraft(next.automationApi);
+  };
+
+  const loadScheduleStatus = async () => {
+    const response = await window.electronAPI.getScheduleStatus();
+    if (response.success && response.data) {
+      setScheduleStatus(response.data);
+    }
+  };
+
+  useEffect(() => {
+    window.electronAPI.getSettings().then((response) => {
+      if (response.success && response.data) {
+        applySettings(response.data.settings);
+        setAccountMarket(response.data.accountMarket);
+        setAutomationStatus(response.data.automationApi);
+      } else {
+        setMessage({ type: 'error', text: response.error ?? 'Failed to load settings' });
+      }
+    });
+
+    window.electronAPI.getUserPlaylists({ ownedOnly: true }).then((response) => {
+      if (response.success && response.data) {
+        setOwnedPlaylists(response.data);
+      }
+    });
+
+    loadScheduleStatus();
+  }, []);
+
+  const saveSettings = async (changes: UpdateSettingsRequest) => {
+    setIsSaving(true);
+    setMessage(null);
+
+    const response = await window.electronAPI.updateSettings(changes);
+    if (response.success && response.data) {
+      applySettings(response.data.settings);
+      setAccountMarket(response.data.accountMarket);
+      setAutomationStatus(response.data.automationApi);
+      setMessage({ type: 'success', text: 'Settings saved.' });
+    } else {
+      setMessage({ type: 'error', text: response.error ?? 'Failed to save settings' });
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleSaveMarkets = () => {
+    saveSettings({
+      marketOverride: marketInput.trim() || null,
+      extraScanMarkets: parseMarketList(extraMarketsInput),
+    });
+  };
+
+  const handleSaveRollingPlaylist = () => {
+    if (rollingDraft) {
+      saveSettings({ rollingPlaylist: rollingDraft });
+    }
+  };
+
+  const handleSaveSchedule = async () => {
+    if (scheduleDraft) {
+      await saveSettings({ scanSchedule: scheduleDraft });
+      await loadScheduleStatus();
+    }
+  };
+
+  const handleRunScheduleNow = async () => {
+    setIsRunningSchedule(true);
+    setMessage(null);
+
+    const response = await window.electronAPI.runScheduledScanNow();
+    if (response.success && response.data) {
+      setScheduleStatus(response.data);
+    } else {
+      setMessage({ type: 'error', text: response.error ?? 'Scheduled scan failed' });
+      await loadScheduleStatus();
+    }
+
+    setIsRunningSchedule(false);
+  };
+
+  const handleSaveAutomationApi = () => {
+    if (automationDraft) {
+      saveSettings({ automationApi: automationDraft });
+    }
+  };
+
+  const handleRegenerateToken = () => {
+    if (
+      automationDraft &&
+      window.confirm('Generate a new API token? Scripts using the current token will stop working.')
+    ) {
+      // An empty token is replaced with a freshly generated one when saved
+      saveSettings({ automationApi: { ...automationDraft, token: '' } });
+    }
+  };
+
+  if (!settings || !rollingDraft || !scheduleDraft || !automationDraft) {
+    return (
+      <div className="settings-panel">
+        {message ? <p className="settings-message settings-message--error">{message.text}</p> : null}
+      </div>
+    );
+  }
+
+  const effectiveMarket = settings.marketOverride ?? accountMarket ?? 'US';
+
+  return (
+    <div className="settings-panel">
+      <div className="section-header">
+        <h2>Settings</h2>
+        <p>Preferences are saved on this computer and apply to every scan</p>
+      </div>
+
+      <section className="settings-section">
+        <h3>Market</h3>
+        <p className="settings-description">
+          Releases and tracks are looked up in this market. Currently using{' '}
+          <strong>{effectiveMarket}</strong>
+          {settings.marketOverride
+            ? ' (override)'
+            : accountMarket
+              ? ' (from your Spotify account)'
+              : ''}
+          .
+        </p>
+
+        <div className="settings-field">
+          <label htmlFor="market-override">Market override</label>
+          <input
+            id="market-override"
+            type="text"
+            className="input settings-input--short"
+            placeholder={accountMarket ?? 'US'}
+            maxLength={2}
+            value={marketInput}
+            onChange={(e) => setMarketInput(e.target.value.toUpperCase())}
+            disabled={isSaving}
+          />
+          <span className="settings-hint">Leave empty to use your account's country</span>
+        </div>
+
+        <div className="settings-field">
+          <label htmlFor="extra-markets">Extra markets for multi-market scans</label>
+          <input
+            id="extra-markets"
+            type="text"
+            className="input"
+            placeholder="e.g. DE, GB, JP"
+            value={extraMarketsInput}
+            onChange={(e) => setExtraMarketsInput(e.target.value)}
+            disabled={isSaving}
+          />
+          <span className="settings-hint">
+            Releases found in any of these markets are merged into the scan results
+          </span>
+        </div>
+
+        <button className="btn btn-primary" onClick={handleSaveMarkets} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </section>
+
+      <section className="settings-section">
+        <h3>Release dates</h3>
+        <p className="settings-description">
+          Some releases only have a month or year as their release date. Choose how those are
+          matched against the look-back window of a scan.
+        </p>
+
+        <div className="settings-field">
+          <label htmlFor="fuzzy-date-policy">Month/year precision dates</label>
+          <select
+            id="fuzzy-date-policy"
+            className="select"
+            value={settings.fuzzyDatePolicy}
+            onChange={(e) => saveSettings({ fuzzyDatePolicy: e.target.value as FuzzyDatePolicy })}
+            disabled={isSaving}
+          >
+            {FUZZY_DATE_POLICY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </section>
+
+      <section className="settings-section">
+        <h3>Playlists</h3>
+        <p className="settings-description">
+          When a song is on both a single and an album from the scan, only one copy is added to the
+          playlist.
+        </p>
+
+        <div className="settings-field">
+          <label htmlFor="duplicate-preference">Duplicate tracks</label>
+          <select
+            id="duplicate-preference"
+            className="select"
+            value={settings.duplicateTrackPreference}
+            onChange={(e) =>
+              saveSettings({ duplicateTrackPreference: e.target.value as DuplicateTrackPreference })
+            }
+            disabled={isSaving}
+          >
+            {DUPLICATE_PREFERENCE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </section>
+
+      <section className="settings-section">
+        <h3>Rolling playlist</h3>
+        <p className="settings-description">
+          Instead of creating a new dated playlist for every scan, keep one playlist up to date: new
+          tracks are appended and tracks added more than the chosen number of days ago are removed.
+        </p>
+
+        <label className="settings-checkbox">
+          <input
+            type="checkbox"
+            checked={rollingDraft.enabled}
+            onChange={(e) => setRollingDraft({ ...rollingDraft, enabled: e.target.checked })}
+            disabled={isSaving}
+          />
+          <span>Update the rolling playlist after each scan</span>
+        </label>
+
+        <div className="settings-field">
+          <label htmlFor="rolling-playlist">Playlist</label>
+          <select
+            id="rolling-playlist"
+            className="select"
+            value={rollingDraft.playlistId ?? ''}
+            onChange={(e) =>
+              setRollingDraft({ ...rollingDraft, playlistId: e.target.value || null })
+            }
+            disabled={isSaving}
+          >
+            <option value="">Create "{rollingDraft.playlistName}" on the next update</option>
+            {rollingDraft.playlistId &&
+              !ownedPlaylists.some((playlist) => playlist.id === rollingDraft.playlistId) && (
+                <option value={rollingDraft.playlistId}>{rollingDraft.playlistName}</option>
+              )}
+            {ownedPlaylists.map((playlist) => (
+              <option key={playlist.id} value={playlist.id}>
+                {playlist.name} ({playlist.tracks.total} tracks)
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="settings-field">
+          <label htmlFor="rolling-name">Name for a newly created playlist</label>
+          <input
+            id="rolling-name"
+            type="text"
+            className="input"
+            value={rollingDraft.playlistName}
+            onChange={(e) => setRollingDraft({ ...rollingDraft, playlistName: e.target.value })}
+            disabled={isSaving}
+          />
+        </div>
+
+        <div className="settings-field">
+          <label htmlFor="rolling-retention">Keep tracks for (days)</label>
+          <input
+            id="rolling-retention"
+            type="number"
+            className="input settings-input--short"
+            min={1}
+            max={365}
+            value={rollingDraft.retentionDays}
+            onChange={(e) =>
+              setRollingDraft({ ...rollingDraft, retentionDays: Number(e.target.value) })
+            }
+            disabled={isSaving}
+          />
+        </div>
+
+        <button className="btn btn-primary" onClick={handleSaveRollingPlaylist} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </section>
+
+      <section className="settings-section">
+        <h3>Scheduled scans</h3>
+        <p className="settings-description">
+          Scan for new releases automatically and get a desktop notification with the results.
+          While scans are scheduled, closing the window keeps the app running in the system tray.
+        </p>
+
+        <label className="settings-checkbox">
+          <input
+            type="checkbox"
+            checked={scheduleDraft.enabled}
+            onChange={(e) => setScheduleDraft({ ...scheduleDraft, enabled: e.target.checked })}
+            disabled={isSaving}
+          />
+          <span>Scan on a schedule</span>
+        </label>
+
+        <div className="settings-field">
+          <label htmlFor="schedule-frequency">Frequency</label>
+          <select
+            id="schedule-frequency"
+            className="select"
+            value={scheduleDraft.frequency}
+            onChange={(e) =>
+              setScheduleDraft({
+                ...scheduleDraft,
+                frequency: e.target.value as ScanScheduleFrequency,
+              })
+            }
+            disabled={isSaving}
+          >
+            {SCHEDULE_FREQUENCY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {scheduleDraft.frequency === 'weekly' && (
+          <div className="settings-field">
+            <label htmlFor="schedule-day">Day</label>
+            <select
+              id="schedule-day"
+              className="select"
+              value={scheduleDraft.dayOfWeek}
+              onChange={(e) =>
+                setScheduleDraft({ ...scheduleDraft, dayOfWeek: Number(e.target.value) })
+              }
+              disabled={isSaving}
+            >
+              {WEEKDAY_NAMES.map((name, index) => (
+                <option key={name} value={index}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="settings-field">
+          <label htmlFor="schedule-time">Time</label>
+          <input
+            id="schedule-time"
+            type="time"
+            className="input settings-input--short"
+            value={scheduleDraft.time}
+            onChange={(e) => setScheduleDraft({ ...scheduleDraft, time: e.target.value })}
+            disabled={isSaving}
+          />
+        </div>
+
+        <div className="settings-field">
+          <label htmlFor="schedule-days-back">Look back (days)</label>
+          <input
+            id="schedule-days-back"
+            type="number"
+            className="input settings-input--short"
+            min={1}
+            max={90}
+            value={scheduleDraft.daysBack}
+            onChange={(e) =>
+              setScheduleDraft({ ...scheduleDraft, daysBack: Number(e.target.value) })
+            }
+            disabled={isSaving}
+          />
+        </div>
+
+        <label className="settings-checkbox">
+          <input
+            type="checkbox"
+            checked={scheduleDraft.createPlaylist}
+            onChange={(e) =>
+              setScheduleDraft({ ...scheduleDraft, createPlaylist: e.target.checked })
+            }
+            disabled={isSaving}
+          />
+          <span>
+            Add the releases to{' '}
+            {rollingDraft.enabled ? `"${rollingDraft.playlistName}"` : 'a new dated playlist'}
+          </span>
+        </label>
+
+        {scheduleStatus && (
+          <span className="settings-hint">{describeScheduleStatus(scheduleStatus)}</span>
+        )}
+
+        <div className="settings-actions">
+          <button className="btn btn-primary" onClick={handleSaveSchedule} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={handleRunScheduleNow}
+            disabled={isSaving || isRunningSchedule || scheduleStatus?.running}
+          >
+            {isRunningSchedule ? 'Scanning...' : 'Run Now'}
+          </button>
+        </div>
+      </section>
+
+      <section className="settings-section">
+        <h3>Automation API</h3>
+        <p className="settings-description">
+          Lets scripts and home automation on this computer analyze sources, follow artists, scan
+          for releases and create playlists over HTTP. The server only listens on 127.0.0.1 and
+          every request needs the token below as <code>Authorization: Bearer &lt;token&gt;</code>.
+        </p>
+
+        <label className="settings-checkbox">
+          <input
+            type="checkbox"
+            checked={automationDraft.enabled}
+            onChange={(e) => setAutomationDraft({ ...automationDraft, enabled: e.target.checked })}
+            disabled={isSaving}
+          />
+          <span>Enable the local automation API</span>
+        </label>
+
+        <div className="settings-field">
+          <label htmlFor="automation-port">Port</label>
+          <input
+            id="automation-port"
+            type="number"
+            className="input settings-input--short"
+            min={1024}
+            max={65535}
+            value={automationDraft.port}
+            onChange={(e) => setAutomationDraft({ ...automationDraft, port: Number(e.target.value) })}
+            disabled={isSaving}
+          />
+        </div>
+
+        {automationDraft.token && (
+          <div className="settings-field">
+            <label htmlFor="automation-token">API token</label>
+            <input
+              id="automation-token"
+              type="text"
+              className="input"
+              value={automationDraft.token}
+              readOnly
+              onFocus={(e) => e.target.select()}
+            />
+          </div>
+        )}
+
+        {automationStatus?.url && (
+          <span className="settings-hint">Listening on {automationStatus.url}/v1</span>
+        )}
+        {automationStatus?.error && (
+          <p className="settings-message settings-message--error">
+            The API server could not start: {automationStatus.error}
+          </p>
+        )}
+
+        <div className="settings-actions">
+          <button className="btn btn-primary" onClick={handleSaveAutomationApi} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+          {automationDraft.token && (
+            <button
+              className="btn btn-secondary"
+              onClick={handleRegenerateToken}
+              disabled={isSaving}
+            >
+              Generate New Token
+            </button>
+          )}
+        </div>
+      </section>
+
+      {message && (
+        <p className={`settings-message settings-message--${message.type}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
+
+export default SettingsPanel;
@@ -0,0 +1,133 @@
+import type { ReleaseTrack, ReleaseWithArtist } from '@shared/types';
+import './TrackPreview.css';
+
+interface TrackPreviewProps {
+  releases: ReleaseWithArtist[];
+  tracksByRelease: Record<string, ReleaseTrack[]>;
+  selectedTrackIds: Set<string>;
+  onSelectionChange: (selectedTrackIds: Set<string>) => void;
+  disabled: boolean;
+}
+
+function formatDuration(durationMs: number): string {
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+function TrackPreview({
+  releases,
+  tracksByRelease,
+  selectedTrackIds,
+  onSelectionChange,
+  disabled,
+}: TrackPreviewProps) {
+  const setTracksSelected = (trackIds: string[], selected: boolean) => {
+    const next = new Set(selectedTrackIds);
+    for (const trackId of trackIds) {
+      if (selected) {
+        next.add(trackId);
+      } else {
+        next.delete(trackId);
+      }
+    }
+    onSelectionChange(next);
+  };
+
+  const allTrackIds = releases.flatMap((release) =>
+    (tracksByRelease[release.id] ?? []).map((track) => track.id)
+  );
+
+  return (
+    <div className="track-preview">
+      <div className="track-preview__actions">
+        <button
+          type="button"
+          className="btn-link"
+          onClick={() => setTracksSelected(allTrackIds, true)}
+          disabled={disabled}
+        >
+          Select All
+        </button>
+        <button
+          type="button"
+          className="btn-link"
+          onClick={() => onSelectionChange(new Set())}
+          disabled={disabled}
+        >
+          Deselect All
+        </button>
+      </div>
+
+      {releases.map((release) => {
+        const tracks = tracksByRelease[release.id];
+        if (!tracks?.length) {
+          return null;
+        }
+
+        const trackIds = tracks.map((track) => track.id);
+        const selectedCount = trackIds.filter((trackId) => selectedTrackIds.has(trackId)).length;
+
+        return (
+          <div key={release.id} className="track-preview__release">
+            <label className="track-preview__release-header">
+              <input
+                type="checkbox"
+                checked={selectedCount === trackIds.length}
+                ref={(input) => {
+                  if (input) {
+                    input.indeterminate = selectedCount > 0 && selectedCount < trackIds.length;
+                  }
+                }}
+                onChange={(e) => setTracksSelected(trackIds, e.target.checked)}
+                disabled={disabled}
+              />
+              <span className="track-preview__release-name">{release.name}</span>
+              <span className="track-preview__release-meta">
+                {release.artist_name} · {selectedCount}/{trackIds.length} selected
+              </span>
+            </label>
+
+            <ul className="track-preview__tracks">
+              {tracks.map((track) => (
+                <li key={track.id} className="track-preview__track">
+                  <label className="track-preview__track-label">
+                    <input
+                      type="checkbox"
+                      checked={selectedTrackIds.has(track.id)}
+                      onChange={(e) => setTracksSelected([track.id], e.target.checked)}
+                      disabled={disabled}
+                    />
+                    <span className="track-preview__track-number">{track.track_number}.</span>
+                    <span className="track-preview__track-name">
+                      {track.name}
+                      {track.explicit && <span className="track-preview__explicit">E</span>}
+                    </span>
+                    <span className="track-preview__track-artists">
+                      {track.artists.map((artist) => artist.name).join(', ')}
+                    </span>
+                    <span className="track-preview__track-duration">
+                      {formatDuration(track.duration_ms)}
+                    </span>
+                  </label>
+                  <a
+                    href={`https://open.spotify.com/track/${track.id}`}
+                    className="track-preview__play"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title="Play in Spotify"
+                  >
+                    ▶
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default TrackPreview;
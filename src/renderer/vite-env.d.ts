@@ -3,12 +3,40 @@
 import type {
   AnalyzePlaylistRequest,
   AnalyzePlaylistResponse,
+  AnalyzePlaylistsRequest,
+  AnalyzePlaylistsResponse,
   FollowArtistsRequest,
   FollowArtistsResponse,
+  FindStaleArtistsRequest,
+  FindStaleArtistsResponse,
+  GetFollowedArtistsRequest,
+  GetFollowedArtistsResponse,
+  GetFollowHistoryResponse,
+  GetLastReleaseDatesRequest,
+  GetLastReleaseDatesResponse,
+  GetRelatedArtistsRequest,
+  GetRelatedArtistsResponse,
+  GetReleaseTracksRequest,
+  GetReleaseTracksResponse,
+  GetUserPlaylistsRequest,
+  JobInfo,
+  JobRequest,
   ScanReleasesRequest,
   ScanReleasesResponse,
+  ScanReleasesBatch,
   CreatePlaylistRequest,
   CreatePlaylistResponse,
+  CancelOperationRequest,
+  CancelOperationResponse,
+  RequestSchedulerStats,
+  ScanScheduleStatus,
+  SpotifyPlaylist,
+  UnfollowArtistsRequest,
+  UnfollowArtistsResponse,
+  UndoFollowHistoryRequest,
+  UndoFollowHistoryResponse,
+  SettingsResponse,
+  UpdateSettingsRequest,
   ProgressUpdate,
   UpdateInfoPayload,
   UpdateErrorPayload,
@@ -20,8 +48,9 @@ declare global {
     electronAPI: {
       // Auth
       startAuth: () => Promise<{ success: boolean; error?: string }>;
-      checkAuth: () => Promise<{ authenticated: boolean }>;
+      checkAuth: () => Promise<{ authenticated: boolean; demo?: boolean; error?: string }>;
       logout: () => Promise<{ success: boolean }>;
+      startDemo: () => Promise<{ success: boolean; error?: string }>;
 
       // Playlist Analyzer
       analyzePlaylist: (request: AnalyzePlaylistRequest) => Promise<{
@@ -29,6 +58,11 @@ declare global {
         data?: AnalyzePlaylistResponse;
         error?: string;
       }>;
+      analyzePlaylists: (request: AnalyzePlaylistsRequest) => Promise<{
+        success: boolean;
+        data?: AnalyzePlaylistsResponse;
+        error?: string;
+      }>;
       onAnalyzeProgress: (callback: (progress: ProgressUpdate) => void) => () => void;
 
       // Follow Artists
@@ -38,6 +72,49 @@ declare global {
         error?: string;
       }>;
       onFollowProgress: (callback: (progress: ProgressUpdate) => void) => () => void;
+      getRelatedArtists: (request: GetRelatedArtistsRequest) => Promise<{
+        success: boolean;
+        data?: GetRelatedArtistsResponse;
+        error?: string;
+      }>;
+      onRelatedArtistsProgress: (callback: (progress: ProgressUpdate) => void) => () => void;
+
+      // Followed Artists
+      getFollowedArtists: (request?: GetFollowedArtistsRequest) => Promise<{
+        success: boolean;
+        data?: GetFollowedArtistsResponse;
+        error?: string;
+      }>;
+      getLastReleaseDates: (request: GetLastReleaseDatesRequest) => Promise<{
+        success: boolean;
+        data?: GetLastReleaseDatesResponse;
+        error?: string;
+      }>;
+      onLastReleaseDatesProgress: (callback: (progress: ProgressUpdate) => void) => () => void;
+      unfollowArtists: (request: UnfollowArtistsRequest) => Promise<{
+        success: boolean;
+        data?: UnfollowArtistsResponse;
+        error?: string;
+      }>;
+      onUnfollowProgress: (callback: (progress: ProgressUpdate) => void) => () => void;
+      findStaleArtists: (request: FindStaleArtistsRequest) => Promise<{
+        success: boolean;
+        data?: FindStaleArtistsResponse;
+        error?: string;
+      }>;
+      onStaleArtistsProgress: (callback: (progress: ProgressUpdate) => void) => () => void;
+
+      // Follow History
+      getFollowHistory: () => Promise<{
+        success: boolean;
+        data?: GetFollowHistoryResponse;
+        error?: string;
+      }>;
+      undoFollowHistory: (request: UndoFollowHistoryRequest) => Promise<{
+        success: boolean;
+        data?: UndoFollowHistoryResponse;
+        error?: string;
+      }>;
 
       // Scan Releases
       scanReleases: (request: ScanReleasesRequest) => Promise<{
@@ -46,6 +123,15 @@ declare global {
         error?: string;
       }>;
       onScanProgress: (callback: (progress: ProgressUpdate) => void) => () => void;
+      onScanBatch: (callback: (batch: ScanReleasesBatch) => void) => () => void;
+
+      // Track preview
+      getReleaseTracks: (request: GetReleaseTracksRequest) => Promise<{
+        success: boolean;
+        data?: GetReleaseTracksResponse;
+        error?: string;
+      }>;
+      onReleaseTracksProgress: (callback: (progress: ProgressUpdate) => void) => () => void;
 
       // Create Playlist
       createPlaylist: (request: CreatePlaylistRequest) => Promise<{
@@ -55,6 +141,69 @@ declare global {
       }>;
       onCreatePlaylistProgress: (callback: (progress: ProgressUpdate) => void) => () => void;
 
+      // Cancellation
+      cancelOperation: (request: CancelOperationRequest) => Promise<{
+        success: boolean;
+        data?: CancelOperationResponse;
+        error?: string;
+      }>;
+
+      // Jobs
+      listJobs: () => Promise<{
+        success: boolean;
+        data?: JobInfo[];
+        error?: string;
+      }>;
+      getJob: (request: JobRequest) => Promise<{
+        success: boolean;
+        data?: JobInfo;
+        error?: string;
+      }>;
+      cancelJob: (request: JobRequest) => Promise<{
+        success: boolean;
+        data?: CancelOperationResponse;
+        error?: string;
+      }>;
+      onJobUpdated: (callback: (job: JobInfo) => void) => () => void;
+
+      // Library
+      getUserPlaylists: (request?: GetUserPlaylistsRequest) => Promise<{
+        success: boolean;
+        data?: SpotifyPlaylist[];
+        error?: string;
+      }>;
+
+      // Settings
+      getSettings: () => Promise<{
+        success: boolean;
+        data?: SettingsResponse;
+        error?: string;
+      }>;
+      updateSettings: (request: UpdateSettingsRequest) => Promise<{
+        success: boolean;
+        data?: SettingsResponse;
+        error?: string;
+      }>;
+
+      // Scheduled scans
+      getScheduleStatus: () => Promise<{
+        success: boolean;
+        data?: ScanScheduleStatus;
+        error?: string;
+      }>;
+      runScheduledScanNow: () => Promise<{
+        success: boolean;
+        data?: ScanScheduleStatus;
+        error?: string;
+      }>;
+
+      // Diagnostics
+      getSchedulerStats: () => Promise<{
+        success: boolean;
+        data?: RequestSchedulerStats;
+        error?: string;
+      }>;
+
       // Updates
       checkForUpdates: (options?: UpdateCheckOptions) => Promise<{ success: boolean; message?: string }>;
       onUpdateAvailable: (callback: (info: UpdateInfoPayload) => void) => () => void;
@@ -13,17 +13,20 @@ export const SPOTIFY_SCOPES = [
   'playlist-modify-public',
   'user-follow-read',
   'user-follow-modify',
+  'user-library-read',
 ].join(' ');
 
 // Rate limiting
-export const DEFAULT_DELAY_MS = 200; // Delay between API calls
+export const SCHEDULER_BUCKET_CAPACITY = 10; // Requests that may burst before throttling
+export const SCHEDULER_BASE_RATE_PER_SECOND = 5; // Sustained request rate when not rate limited
+export const SCHEDULER_MIN_RATE_PER_SECOND = 0.5; // Floor for the adaptive rate after 429s
 export const RATE_LIMIT_RETRY_DEFAULT = 5; // Default retry after seconds for rate limits
 export const CHUNK_SIZE_FOLLOW = 20; // Artists to follow per request
 export const CHUNK_SIZE_PLAYLIST_ADD = 100; // Tracks to add to playlist per request
-export const MAX_REQUESTS_PER_INTERVAL = 15; // Soft cap per rate-limit window
-export const REQUEST_INTERVAL_MS = 1000; // Rate-limit window size in ms
 export const MAX_RATE_LIMIT_WAIT_SECONDS = 30; // Upper bound for retry-after waits
-export const MAX_DYNAMIC_DELAY_MS = 2000; // Ceiling for adaptive delay backoff
+
+// Markets
+export const DEFAULT_MARKET = 'US'; // Used when the account reports no country
 
 // UI Constants
 export const DAYS_OPTIONS = [7, 14, 30];
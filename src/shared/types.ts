@@ -55,10 +55,26 @@ export interface SpotifyPlaylist {
 
 export interface UnfollowedArtist extends SpotifyArtist {
   frequency: number;
+  // Only set by batch analysis; frequency is then the total across all playlists
+  appearances?: PlaylistAppearance[];
 }
 
+export interface PlaylistAppearance {
+  playlistName: string;
+  count: number;
+}
+
+// How the followed artist is credited on a release
+export type ReleaseArtistRole = 'primary' | 'appears_on' | 'compilation';
+
+// Artist album groups beyond albums and singles that a scan can opt into
+export type OptionalReleaseGroup = 'appears_on' | 'compilation';
+
 export interface ReleaseWithArtist extends SpotifyAlbum {
   artist_name: string;
+  artist_role: ReleaseArtistRole;
+  // Spotify only knows the month or year this was released
+  fuzzy_release_date?: boolean;
 }
 
 export interface AuthTokens {
@@ -81,24 +97,61 @@ export const IPC_CHANNELS = {
   AUTH_ERROR: 'auth:error',
   AUTH_CHECK: 'auth:check',
   AUTH_LOGOUT: 'auth:logout',
+  AUTH_DEMO: 'auth:demo',
   
   // Playlist Artist Follower
   ANALYZE_PLAYLIST: 'playlist:analyze',
   ANALYZE_PLAYLIST_PROGRESS: 'playlist:analyze:progress',
   ANALYZE_PLAYLIST_COMPLETE: 'playlist:analyze:complete',
+  ANALYZE_PLAYLISTS: 'playlist:analyze-batch',
   FOLLOW_ARTISTS: 'playlist:follow',
   FOLLOW_ARTISTS_PROGRESS: 'playlist:follow:progress',
   FOLLOW_ARTISTS_COMPLETE: 'playlist:follow:complete',
   RELATED_ARTISTS: 'artists:related',
+  RELATED_ARTISTS_PROGRESS: 'artists:related:progress',
+
+  // Followed Artists
+  FOLLOWED_ARTISTS: 'artists:followed',
+  LAST_RELEASE_DATES: 'artists:last-release-dates',
+  LAST_RELEASE_DATES_PROGRESS: 'artists:last-release-dates:progress',
+  UNFOLLOW_ARTISTS: 'artists:unfollow',
+  UNFOLLOW_ARTISTS_PROGRESS: 'artists:unfollow:progress',
+  STALE_ARTISTS: 'artists:stale',
+  STALE_ARTISTS_PROGRESS: 'artists:stale:progress',
+
+  // Follow History
+  FOLLOW_HISTORY: 'history:list',
+  FOLLOW_HISTORY_UNDO: 'history:undo',
 
   // New Releases
   SCAN_RELEASES: 'releases:scan',
   SCAN_RELEASES_PROGRESS: 'releases:scan:progress',
   SCAN_RELEASES_COMPLETE: 'releases:scan:complete',
+  SCAN_RELEASES_BATCH: 'releases:scan:batch',
+  RELEASE_TRACKS: 'releases:tracks',
+  RELEASE_TRACKS_PROGRESS: 'releases:tracks:progress',
   CREATE_PLAYLIST: 'releases:create-playlist',
   CREATE_PLAYLIST_PROGRESS: 'releases:create-playlist:progress',
   CREATE_PLAYLIST_COMPLETE: 'releases:create-playlist:complete',
 
+  // Cancellation
+  CANCEL_OPERATION: 'operation:cancel',
+  // Jobs
+  JOBS_LIST: 'jobs:list',
+  JOBS_GET: 'jobs:get',
+  JOBS_CANCEL: 'jobs:cancel',
+  JOBS_UPDATED: 'jobs:updated',
+  // Library
+  USER_PLAYLISTS: 'playlists:list',
+  // Settings
+  SETTINGS_GET: 'settings:get',
+  SETTINGS_UPDATE: 'settings:update',
+  // Scheduled scans
+  SCHEDULE_STATUS: 'schedule:status',
+  SCHEDULE_RUN_NOW: 'schedule:run-now',
+  // Diagnostics
+  SCHEDULER_STATS: 'scheduler:stats',
+
   // General
   ERROR: 'error',
 
@@ -110,54 +163,413 @@ export const IPC_CHANNELS = {
 } as const;
 
 // Request/Response types for IPC
+export type AnalysisSourceType = 'playlist' | 'album' | 'artist' | 'track' | 'liked-songs';
+
 export interface AnalyzePlaylistRequest {
-  playlistUrl: string;
+  // Playlist, album, artist or track URL/URI, a bare playlist ID, or "liked" for Liked Songs
+  source: string;
 }
 
 export interface AnalyzePlaylistResponse {
+  sourceType: AnalysisSourceType;
+  // Named for playlists, but holds the title and owner/artists of whichever source was analyzed
   playlistName: string;
   playlistOwner: string;
   unfollowedArtists: UnfollowedArtist[];
+  cancelled?: boolean;
+}
+
+export interface AnalyzePlaylistsRequest {
+  // Accepts the same URLs, URIs and IDs as a single analysis
+  sources: string[];
+}
+
+export interface AnalyzedPlaylistSummary {
+  source: string;
+  sourceType: AnalysisSourceType;
+  playlistName: string;
+  playlistOwner: string;
+}
+
+export interface AnalyzePlaylistsResponse {
+  playlists: AnalyzedPlaylistSummary[];
+  failedSources: Array<{ source: string; error: string }>;
+  unfollowedArtists: UnfollowedArtist[];
+  cancelled?: boolean;
 }
 
 export interface FollowArtistsRequest {
   artistIds: string[];
+  // Recorded in the follow history; names fall back to the artist ID
+  artistNames?: Record<string, string>;
+  source?: FollowHistorySource;
 }
 
 export interface FollowArtistsResponse {
   followedCount: number;
   failedCount: number;
   failedArtists: string[];
+  // Why each failed artist could not be changed, keyed by artist ID
+  failureReasons: Record<string, string>;
+  skippedArtists: string[];
+  cancelled?: boolean;
+}
+
+export interface FollowedArtist extends SpotifyArtist {
+  // Release date of the artist's newest album or single, when already known
+  lastReleaseDate: string | null;
+}
+
+export interface GetFollowedArtistsRequest {
+  // Bypass the cached list, e.g. after following or unfollowing in another client
+  refresh?: boolean;
+}
+
+export interface GetFollowedArtistsResponse {
+  artists: FollowedArtist[];
+}
+
+export interface GetLastReleaseDatesRequest {
+  artistIds: string[];
+}
+
+export interface GetLastReleaseDatesResponse {
+  // null when the artist has no albums or singles in the current market
+  lastReleaseDates: Record<string, string | null>;
+  cancelled?: boolean;
+}
+
+export interface FindStaleArtistsRequest {
+  // Artists without a release in this many months are flagged
+  monthsQuiet: number;
+}
+
+export interface StaleArtist extends FollowedArtist {
+  // null when the artist has no albums or singles at all
+  monthsSinceRelease: number | null;
+}
+
+export interface FindStaleArtistsResponse {
+  staleArtists: StaleArtist[];
+  totalArtistsChecked: number;
+  // The threshold the check ran with, which the input may no longer show
+  monthsQuiet: number;
+  cancelled?: boolean;
+}
+
+export interface UnfollowArtistsRequest {
+  artistIds: string[];
+  artistNames?: Record<string, string>;
+  source?: FollowHistorySource;
+}
+
+export interface UnfollowArtistsResponse {
+  unfollowedCount: number;
+  failedCount: number;
+  failedArtists: string[];
+  failureReasons: Record<string, string>;
+  skippedArtists: string[];
+  cancelled?: boolean;
+}
+
+export type FollowHistoryAction = 'follow' | 'unfollow';
+
+export interface FollowHistorySource {
+  // Playlist name, or the view the artists were picked in
+  label: string;
+  url?: string;
+}
+
+export interface FollowHistoryEntry {
+  id: string;
+  action: FollowHistoryAction;
+  timestamp: number;
+  source: FollowHistorySource | null;
+  artists: Array<{ id: string; name: string }>;
+  // Artists whose change was undone from the history view
+  revertedArtistIds: string[];
+  // Set on entries recorded by an undo, pointing at the entry that was reverted
+  undoOf?: string;
+}
+
+export interface GetFollowHistoryResponse {
+  // Newest first
+  entries: FollowHistoryEntry[];
+}
+
+export interface UndoFollowHistoryRequest {
+  entryId: string;
+  // Defaults to every artist of the entry that has not been reverted yet
+  artistIds?: string[];
+}
+
+export interface UndoFollowHistoryResponse {
+  entry: FollowHistoryEntry;
+  revertedCount: number;
+  failedArtists: string[];
+  failureReasons: Record<string, string>;
+  skippedArtists: string[];
+  cancelled?: boolean;
 }
 
 export interface GetRelatedArtistsRequest {
   artistIds: string[];
+  // Related-artist hops to explore from the seeds, 1 to 3 (defaults to 1)
+  depth?: number;
 }
 
+export interface RelatedArtistCandidate extends SpotifyArtist {
+  // Sum of 1 / hops over every seed the artist connects to
+  score: number;
+  // Fewest hops from any seed
+  distance: number;
+  connections: Array<{ seedId: string; seedName: string; distance: number }>;
+  // e.g. "Related to A, B and C; 2 hops from D"
+  explanation: string;
+}
+
+// 'genres-and-playlists' is the local fallback used when Spotify refuses /related-artists
+export type RecommendationStrategy = 'related-artists' | 'genres-and-playlists';
+
 export interface GetRelatedArtistsResponse {
-  artists: SpotifyArtist[];
+  artists: RelatedArtistCandidate[];
+  strategy: RecommendationStrategy;
+  cancelled?: boolean;
+}
+
+export interface ReleaseFilters {
+  // Release types to keep; an empty list keeps every type
+  albumTypes: Array<SpotifyAlbum['album_type']>;
+  // Case-insensitive title patterns, matched on word boundaries; `*` is a wildcard
+  includeKeywords: string[];
+  excludeKeywords: string[];
+  minTracks: number | null;
+  maxTracks: number | null;
+  // Explicit tracks are dropped when the playlist is built
+  excludeExplicit: boolean;
+  excludedArtists: Array<{ id: string; name: string }>;
 }
 
 export interface ScanReleasesRequest {
   daysBack: number;
   maxArtists?: number;
+  filters?: ReleaseFilters;
+  includeGroups?: OptionalReleaseGroup[];
+  // Markets scanned in addition to the primary one, merged into one result
+  extraMarkets?: string[];
 }
 
 export interface ScanReleasesResponse {
   releases: ReleaseWithArtist[];
+  // Subset of releases that no previous scan had seen
+  newReleases: ReleaseWithArtist[];
+  previousScanAt: number | null;
   totalArtistsChecked: number;
+  markets: string[];
+  // Releases in the window that the filters removed
+  filteredOut: number;
+  cancelled?: boolean;
+  // Some artists were skipped because Spotify asked to wait longer than the app will
+  rateLimited?: boolean;
+}
+
+// Sent on SCAN_RELEASES_BATCH while a scan runs, once per batch of checked artists
+export interface ScanReleasesBatch {
+  // Releases found or updated by this batch that passed the filters; replace any earlier
+  // copy with the same ID
+  releases: ReleaseWithArtist[];
+  newReleaseIds: string[];
+  // Running total of releases the filters removed so far
+  filteredOut: number;
+  artistsChecked: number;
+  totalArtists: number;
+}
+
+export interface GetUserPlaylistsRequest {
+  // Only playlists the signed-in account can add tracks to
+  ownedOnly?: boolean;
+}
+
+export interface ReleaseTrack {
+  id: string;
+  name: string;
+  uri: string;
+  duration_ms: number;
+  explicit: boolean;
+  track_number: number;
+  artists: Array<{ id: string; name: string }>;
 }
 
+export interface GetReleaseTracksRequest {
+  releaseIds: string[];
+}
+
+export interface GetReleaseTracksResponse {
+  // Track lists keyed by release ID, in album order
+  tracksByRelease: Record<string, ReleaseTrack[]>;
+  cancelled?: boolean;
+}
+
+// 'rolling' updates the playlist configured in settings instead of creating a new one
+export type PlaylistTarget = 'new' | 'rolling';
+
 export interface CreatePlaylistRequest {
   playlistName: string;
   releases: ReleaseWithArtist[];
   isPublic: boolean;
+  target?: PlaylistTarget;
+  filters?: ReleaseFilters;
+  // Tracks picked in the preview; only duplicate recordings among them are dropped
+  trackIds?: string[];
 }
 
 export interface CreatePlaylistResponse {
   playlistUrl: string;
   playlistId: string;
   tracksAdded: number;
+  // Tracks pruned from a rolling playlist for being older than its retention
+  tracksRemoved: number;
+  // Tracks left out because another release already contained the same recording
+  duplicatesSkipped: number;
+  explicitSkipped: number;
+  cancelled?: boolean;
+}
+
+export type CancellableOperation =
+  | 'analyze-playlist'
+  | 'follow-artists'
+  | 'related-artists'
+  | 'unfollow-artists'
+  | 'last-release-dates'
+  | 'stale-artists'
+  | 'scan-releases'
+  | 'release-tracks'
+  | 'create-playlist';
+
+export interface CancelOperationRequest {
+  operation: CancellableOperation;
+}
+
+export interface CancelOperationResponse {
+  cancelled: boolean;
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// Who started a job; cancelling an operation from the app only stops the app's own jobs
+export type JobOrigin = 'app' | 'api' | 'schedule';
+
+export interface JobInfo {
+  id: string;
+  type: CancellableOperation;
+  origin: JobOrigin;
+  // Short description such as the playlist name or the scanned timeframe
+  label: string;
+  status: JobStatus;
+  progress: ProgressUpdate | null;
+  // Only included by JOBS_GET, once the job has succeeded or was cancelled with a partial result
+  result?: unknown;
+  error: string | null;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export interface JobRequest {
+  jobId: string;
+}
+
+export type RequestPriority = 'interactive' | 'bulk';
+
+export interface RequestSchedulerStats {
+  queueDepth: Record<RequestPriority, number>;
+  totalRequests: number;
+  rateLimitHits: number;
+  allowedRatePerSecond: number;
+  observedRatePerSecond: number;
+  backoffEndpoints: Array<{ endpoint: string; retryInMs: number }>;
+}
+
+// How month- and year-precision release dates are matched against a scan window
+export type FuzzyDatePolicy = 'start' | 'end' | 'overlap';
+
+// Which release keeps a recording that appears on both an album and a single
+export type DuplicateTrackPreference = 'album' | 'single';
+
+export interface RollingPlaylistSettings {
+  enabled: boolean;
+  // Null until the playlist is picked or created on the first rolling update
+  playlistId: string | null;
+  playlistName: string;
+  retentionDays: number;
+}
+
+export type ScanScheduleFrequency = 'daily' | 'weekly';
+
+export interface ScanScheduleSettings {
+  enabled: boolean;
+  frequency: ScanScheduleFrequency;
+  // 0 is Sunday; only used by weekly schedules
+  dayOfWeek: number;
+  // Local time of day as HH:MM
+  time: string;
+  daysBack: number;
+  // Add the releases to the rolling playlist when enabled, otherwise to a new dated playlist
+  createPlaylist: boolean;
+}
+
+export interface AppSettings {
+  // Two-letter market code; null uses the country of the Spotify account
+  marketOverride: string | null;
+  extraScanMarkets: string[];
+  fuzzyDatePolicy: FuzzyDatePolicy;
+  duplicateTrackPreference: DuplicateTrackPreference;
+  rollingPlaylist: RollingPlaylistSettings;
+  releaseFilters: ReleaseFilters;
+  scanSchedule: ScanScheduleSettings;
+  automationApi: AutomationApiSettings;
+}
+
+export interface AutomationApiSettings {
+  enabled: boolean;
+  port: number;
+  // Sent as "Authorization: Bearer <token>"; saving an empty token generates a new one
+  token: string;
+}
+
+export interface AutomationApiStatus {
+  // Base URL while the server is listening, e.g. http://127.0.0.1:8765
+  url: string | null;
+  // Why the server could not start, e.g. the port is already in use
+  error: string | null;
+}
+
+export type UpdateSettingsRequest = Partial<AppSettings>;
+
+export interface SettingsResponse {
+  settings: AppSettings;
+  // Country reported by /me, null when signed out
+  accountMarket: string | null;
+  automationApi: AutomationApiStatus;
+}
+
+export interface ScheduledScanRun {
+  startedAt: number;
+  finishedAt: number;
+  succeeded: boolean;
+  releasesFound: number;
+  newReleases: number;
+  playlistName?: string;
+  playlistUrl?: string;
+  tracksAdded?: number;
+  error?: string;
+}
+
+export interface ScanScheduleStatus {
+  // null while the schedule is disabled
+  nextRunAt: number | null;
+  lastRun: ScheduledScanRun | null;
+  running: boolean;
 }
 
 export interface ProgressUpdate {